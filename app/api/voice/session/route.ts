@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getVoiceAgents, getVoiceAgent } from '@/lib/voiceAgents'
+import { generateUUID } from '@/lib/utils'
+
+const VOICE_SESSION_URL = process.env.VOICE_SESSION_URL || 'https://voice-sip.studio.lyzr.ai/session/start'
+const LYZR_API_KEY = process.env.LYZR_API_KEY || ''
+// Session IDs from the caller are forwarded upstream, so keep them to a safe shape
+const ID_PATTERN = /^[A-Za-z0-9._:@-]{1,128}$/
+// The user ID is issued here and pinned to the browser, so a caller cannot
+// start sessions as someone else by putting another ID in the body
+const USER_COOKIE = 'voiceflow_uid'
+const USER_COOKIE_MAX_AGE = 60 * 60 * 24 * 365
+
+/**
+ * Agent IDs allowed to start voice sessions. VOICE_ALLOWED_AGENT_IDS
+ * (comma-separated) overrides the voice agent registry.
+ */
+function getAllowedAgentIds(): string[] {
+  const fromEnv = (process.env.VOICE_ALLOWED_AGENT_IDS || '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean)
+  if (fromEnv.length > 0) return fromEnv
+
+  return getVoiceAgents().map(agent => agent.id)
+}
+
+/**
+ * POST /api/voice/session
+ *
+ * Starts a voice session server-side so the API key never reaches the browser.
+ * Body: { agentId, userId?, sessionId?, framing?, resumeToken?, language? }
+ * Returns the upstream { wsUrl, audioConfig, resumeToken } plus the user and
+ * session IDs attached to the session. The user ID comes from an HttpOnly
+ * cookie set on the first call; a `userId` in the body must match it. The
+ * agent's configured voice settings (who speaks first, greeting, voice,
+ * language) are forwarded upstream; a `language` from the client takes
+ * precedence as a hint.
+ */
+export async function POST(request: NextRequest) {
+  // A custom VOICE_SESSION_URL (e.g. the local mock server) may not need a key
+  if (!LYZR_API_KEY && !process.env.VOICE_SESSION_URL) {
+    return NextResponse.json(
+      { success: false, error: 'LYZR_API_KEY not configured on server' },
+      { status: 500 }
+    )
+  }
+
+  try {
+    const body = await request.json()
+    const { agentId, userId, sessionId, framing, resumeToken, language } = body || {}
+
+    if (!agentId) {
+      return NextResponse.json({ success: false, error: 'agentId is required' }, { status: 400 })
+    }
+
+    if (sessionId != null && (typeof sessionId !== 'string' || !ID_PATTERN.test(sessionId))) {
+      return NextResponse.json({ success: false, error: 'Invalid sessionId' }, { status: 400 })
+    }
+
+    const cookieUserId = request.cookies.get(USER_COOKIE)?.value
+    const knownUserId = cookieUserId && ID_PATTERN.test(cookieUserId) ? cookieUserId : null
+    if (userId != null && userId !== knownUserId) {
+      return NextResponse.json({ success: false, error: 'userId does not belong to this client' }, { status: 403 })
+    }
+
+    if (!getAllowedAgentIds().includes(agentId)) {
+      return NextResponse.json(
+        { success: false, error: `Agent ${agentId} is not enabled for voice sessions` },
+        { status: 403 }
+      )
+    }
+
+    const finalUserId = knownUserId || `user-${generateUUID()}`
+    const finalSessionId = sessionId || `${agentId}-${generateUUID().substring(0, 12)}`
+
+    const payload: Record<string, any> = {
+      agentId,
+      userId: finalUserId,
+      sessionId: finalSessionId,
+      metadata: {
+        origin: request.headers.get('origin') || undefined,
+        user_agent: request.headers.get('user-agent') || undefined,
+        started_at: new Date().toISOString(),
+      },
+    }
+    if (Array.isArray(framing)) payload.framing = framing
+    if (resumeToken) payload.resumeToken = resumeToken
+
+    const agent = getVoiceAgent(agentId)
+    const voiceConfig = Object.fromEntries(Object.entries({
+      initiator: agent?.initiator,
+      message: agent?.greeting,
+      voice: agent?.voice,
+      language: (typeof language === 'string' && language) || agent?.language,
+    }).filter(([, value]) => value))
+    if (Object.keys(voiceConfig).length > 0) payload.voiceConfig = voiceConfig
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    if (LYZR_API_KEY) headers['x-api-key'] = LYZR_API_KEY
+
+    const upstream = await fetch(VOICE_SESSION_URL, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(payload),
+    })
+
+    const text = await upstream.text()
+    let data: any = null
+    try {
+      data = text ? JSON.parse(text) : null
+    } catch {
+      // Non-JSON upstream response; reported below
+    }
+
+    if (!upstream.ok) {
+      const errorMsg = data?.detail || data?.error || data?.message || `Session start failed with status ${upstream.status}`
+      return NextResponse.json(
+        { success: false, error: errorMsg, raw_response: text },
+        { status: upstream.status }
+      )
+    }
+
+    if (!data?.wsUrl) {
+      return NextResponse.json(
+        { success: false, error: 'No WebSocket URL returned', raw_response: text },
+        { status: 502 }
+      )
+    }
+
+    const response = NextResponse.json({
+      success: true,
+      wsUrl: data.wsUrl,
+      audioConfig: data.audioConfig,
+      resumeToken: data.resumeToken,
+      agentId,
+      userId: finalUserId,
+      sessionId: finalSessionId,
+    })
+    if (!knownUserId) {
+      response.cookies.set(USER_COOKIE, finalUserId, {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: process.env.NODE_ENV === 'production',
+        path: '/api/voice',
+        maxAge: USER_COOKIE_MAX_AGE,
+      })
+    }
+    return response
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,7 +1,27 @@
 'use client'
 
-import React, { useState, useRef, useCallback, useEffect } from 'react'
+import React, { useState, useRef, useEffect, useMemo } from 'react'
 import { FiMic, FiMicOff, FiSettings, FiSquare, FiRefreshCw, FiX } from 'react-icons/fi'
+import { Check, ChevronDown, Download, Mic, Play, Send, Square, X } from 'lucide-react'
+import { useVoiceSession, VoiceState, InputMode, TranscriptEntry } from '@/hooks/useVoiceSession'
+import { CaptureFrameDuration } from '@/lib/audioCapture'
+import { JitterBufferStats } from '@/lib/jitterBuffer'
+import { useVoiceSettings, VoiceSettings } from '@/hooks/useVoiceSettings'
+import { VadSensitivity, VAD_SENSITIVITIES } from '@/lib/vad'
+import { LevelReader } from '@/lib/audioLevels'
+import { useReducedMotion } from '@/hooks/useReducedMotion'
+import { useDismiss } from '@/hooks/useDismiss'
+import { useConversationHistory } from '@/hooks/useConversationHistory'
+import { useTextChat } from '@/hooks/useTextChat'
+import { supportsSpeechSynthesis } from '@/lib/speech'
+import { ConversationHistorySidebar } from '@/components/ConversationHistorySidebar'
+import { SidebarProvider, SidebarTrigger } from '@/components/ui/sidebar'
+import { TranscriptExportFormat, EXPORT_FORMATS, downloadTranscript, exportBaseName } from '@/lib/transcriptExport'
+import { SessionRecording, RecordingLayout, recordingToWav, recordingExtension, supportsSessionRecording } from '@/lib/sessionRecorder'
+import { downloadBlob } from '@/lib/download'
+import { AudioDevice, listAudioDevices, onAudioDevicesChange, supportsOutputSelection } from '@/lib/audioDevices'
+import { VoiceAgent, getVoiceAgents, getVoiceAgent } from '@/lib/voiceAgents'
+import { LANGUAGES, DEFAULT_LANGUAGE, MessageKey, TextDirection, Translator, createTranslator, resolveLanguage } from '@/lib/i18n'
 
 // ─── Theme ──────────────────────────────────────────────────────────────────────
 const THEME_VARS: React.CSSProperties & Record<string, string> = {
@@ -22,307 +42,531 @@ const THEME_VARS: React.CSSProperties & Record<string, string> = {
 }
 
 // ─── Voice Agent Configuration ──────────────────────────────────────────────────
-const VOICE_AGENT_ID = '699960e58cfc4d116987bc9a'
-const SESSION_START_URL = 'https://voice-sip.studio.lyzr.ai/session/start'
+// From workflow_state.json and NEXT_PUBLIC_VOICE_AGENTS; the first is the default
+const VOICE_AGENTS = getVoiceAgents()
+const SESSION_START_URL = '/api/voice/session'
+const CAPTURE_FRAME_MS: CaptureFrameDuration = 40
+// Assistant audio buffered before playback starts or resumes after an underrun
+const JITTER_TARGET_MS = 120
 
-type VoiceState = 'idle' | 'connecting' | 'listening' | 'thinking' | 'speaking' | 'error'
+// ─── Error Boundary ─────────────────────────────────────────────────────────────
+class ErrorBoundary extends React.Component<
+  { children: React.ReactNode; t: Translator },
+  { hasError: boolean; error: string }
+> {
+  constructor(props: { children: React.ReactNode; t: Translator }) {
+    super(props)
+    this.state = { hasError: false, error: '' }
+  }
+  static getDerivedStateFromError(error: Error) {
+    return { hasError: true, error: error.message }
+  }
+  render() {
+    if (this.state.hasError) {
+      return (
+        <div className="min-h-screen flex items-center justify-center bg-background text-foreground">
+          <div className="text-center p-8 max-w-md">
+            <h2 className="text-xl font-semibold mb-2">{this.props.t('error.title')}</h2>
+            <p className="text-muted-foreground mb-4 text-sm">{this.state.error}</p>
+            <button onClick={() => this.setState({ hasError: false, error: '' })} className="px-4 py-2 bg-primary text-primary-foreground rounded-md text-sm">
+              {this.props.t('error.retry')}
+            </button>
+          </div>
+        </div>
+      )
+    }
+    return this.props.children
+  }
+}
 
-interface TranscriptEntry {
-  role: 'user' | 'assistant'
-  text: string
-  timestamp: number
+// ─── Status Label Map ───────────────────────────────────────────────────────────
+const STATUS_LABELS: Record<VoiceState, MessageKey> = {
+  idle: 'status.idle',
+  connecting: 'status.connecting',
+  reconnecting: 'status.reconnecting',
+  listening: 'status.listening',
+  thinking: 'status.thinking',
+  speaking: 'status.speaking',
+  error: 'status.error',
 }
 
-// ─── Voice Agent Hook ───────────────────────────────────────────────────────────
-function useVoiceAgent() {
-  const [voiceState, setVoiceState] = useState<VoiceState>('idle')
-  const [transcript, setTranscript] = useState<TranscriptEntry[]>([])
-  const [error, setError] = useState<string | null>(null)
-  const [isMuted, setIsMuted] = useState(false)
-  const isMutedRef = useRef(false)
+// ─── Export Format Labels ───────────────────────────────────────────────────────
+const EXPORT_FORMAT_LABELS: Record<TranscriptExportFormat, MessageKey> = {
+  markdown: 'export.markdown',
+  json: 'export.json',
+  txt: 'export.txt',
+  srt: 'export.srt',
+  vtt: 'export.vtt',
+}
 
-  const wsRef = useRef<WebSocket | null>(null)
-  const audioContextRef = useRef<AudioContext | null>(null)
-  const mediaStreamRef = useRef<MediaStream | null>(null)
-  const processorRef = useRef<ScriptProcessorNode | null>(null)
-  const sampleRateRef = useRef<number>(24000)
+// ─── Time Formatter ─────────────────────────────────────────────────────────────
+function formatTime(ts: number): string {
+  const d = new Date(ts)
+  return d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+}
 
-  const nextPlayTimeRef = useRef<number>(0)
-  const playbackContextRef = useRef<AudioContext | null>(null)
+// ─── Interrupted Text Split ─────────────────────────────────────────────────────
+// Approximates where speech stopped by mapping the played-audio ratio onto the
+// text, snapped forward to the next word boundary.
+function splitAtSpoken(text: string, ratio: number): [string, string] {
+  const clamped = Math.max(0, Math.min(1, ratio))
+  let idx = Math.round(text.length * clamped)
+  while (idx < text.length && text[idx] !== ' ') idx++
+  return [text.slice(0, idx), text.slice(idx)]
+}
 
-  const playAudioChunk = useCallback((base64Audio: string) => {
-    const ctx = playbackContextRef.current
-    if (!ctx) return
+function InterruptedText({ text, spokenRatio }: { text: string; spokenRatio: number }) {
+  const [spoken, unspoken] = splitAtSpoken(text, spokenRatio)
+  return (
+    <p className="text-sm leading-relaxed">
+      {spoken}
+      <span className="text-[hsl(0,0%,35%)] line-through decoration-[hsl(0,0%,25%)]">{unspoken}</span>
+    </p>
+  )
+}
 
-    try {
-      const binaryStr = atob(base64Audio)
-      const bytes = new Uint8Array(binaryStr.length)
-      for (let i = 0; i < binaryStr.length; i++) {
-        bytes[i] = binaryStr.charCodeAt(i)
-      }
-      const pcm16 = new Int16Array(bytes.buffer)
+// ─── Playback Diagnostics ───────────────────────────────────────────────────────
+function PlaybackDiagnostics({ getStats, t }: { getStats: () => JitterBufferStats | null; t: Translator }) {
+  const [stats, setStats] = useState<JitterBufferStats | null>(null)
 
-      const float32 = new Float32Array(pcm16.length)
-      for (let i = 0; i < pcm16.length; i++) {
-        float32[i] = pcm16[i] / (pcm16[i] < 0 ? 0x8000 : 0x7FFF)
-      }
+  useEffect(() => {
+    setStats(getStats())
+    const id = setInterval(() => setStats(getStats()), 1000)
+    return () => clearInterval(id)
+  }, [getStats])
+
+  const ms = (value: number) => t('diagnostics.milliseconds', { value: String(value) })
+  const rows: [string, string][] = stats
+    ? [
+        [t('diagnostics.underruns'), String(stats.underruns)],
+        [t('diagnostics.averageBuffered'), ms(stats.averageBufferedMs)],
+        [t('diagnostics.currentBuffered'), ms(stats.currentBufferedMs)],
+        [t('diagnostics.targetLatency'), ms(stats.targetLatencyMs)],
+      ]
+    : []
 
-      const audioBuffer = ctx.createBuffer(1, float32.length, sampleRateRef.current)
-      audioBuffer.getChannelData(0).set(float32)
+  return (
+    <div>
+      <p className="text-sm font-medium text-[hsl(0,0%,95%)]">{t('diagnostics.title')}</p>
+      {stats ? (
+        <dl className="mt-2 grid grid-cols-2 gap-x-4 gap-y-1">
+          {rows.map(([label, value]) => (
+            <React.Fragment key={label}>
+              <dt className="text-xs text-[hsl(0,0%,60%)]">{label}</dt>
+              <dd className="text-xs text-end font-mono text-[hsl(0,0%,85%)]">{value}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+      ) : (
+        <p className="text-xs text-[hsl(0,0%,60%)] mt-0.5">{t('diagnostics.unavailable')}</p>
+      )}
+    </div>
+  )
+}
 
-      const source = ctx.createBufferSource()
-      source.buffer = audioBuffer
-      source.connect(ctx.destination)
+// ─── Device Settings ────────────────────────────────────────────────────────────
+function DeviceSelect({
+  label,
+  devices,
+  value,
+  onChange,
+  disabled,
+  hint,
+  t,
+}: {
+  label: string
+  devices: AudioDevice[]
+  value: string | null
+  onChange: (deviceId: string | null) => void
+  disabled?: boolean
+  hint?: string
+  t: Translator
+}) {
+  // Keep a stored device selectable even while it is unplugged
+  const missing = value && !devices.some(d => d.deviceId === value)
 
-      const currentTime = ctx.currentTime
-      const startTime = Math.max(currentTime, nextPlayTimeRef.current)
-      source.start(startTime)
-      nextPlayTimeRef.current = startTime + audioBuffer.duration
+  return (
+    <label className="block">
+      <span className="text-xs text-[hsl(0,0%,60%)]">{label}</span>
+      <select
+        value={value || ''}
+        onChange={e => onChange(e.target.value || null)}
+        disabled={disabled}
+        className="mt-1 w-full rounded-sm border border-[hsl(0,0%,15%)] bg-[hsl(0,0%,8%)] px-2 py-1.5 text-xs text-[hsl(0,0%,85%)] disabled:opacity-50"
+      >
+        <option value="">{t('settings.systemDefault')}</option>
+        {devices.map(d => (
+          <option key={d.deviceId} value={d.deviceId}>{d.label}</option>
+        ))}
+        {missing && <option value={value}>{t('settings.unavailableDevice')}</option>}
+      </select>
+      {hint && <span className="block text-[10px] text-[hsl(0,0%,40%)] mt-1">{hint}</span>}
+    </label>
+  )
+}
 
-      source.onended = () => {
-        if (ctx.currentTime >= nextPlayTimeRef.current - 0.05) {
-          setVoiceState('listening')
-        }
-      }
-    } catch (_err) {
-      // Audio playback error
-    }
-  }, [])
+function DeviceSettings({
+  settings,
+  onChange,
+  t,
+}: {
+  settings: VoiceSettings
+  onChange: (patch: Partial<VoiceSettings>) => void
+  t: Translator
+}) {
+  const [inputs, setInputs] = useState<AudioDevice[]>([])
+  const [outputs, setOutputs] = useState<AudioDevice[]>([])
+  const canSelectOutput = supportsOutputSelection()
 
-  const cleanup = useCallback(() => {
-    if (processorRef.current) {
-      processorRef.current.disconnect()
-      processorRef.current = null
-    }
-    if (mediaStreamRef.current) {
-      mediaStreamRef.current.getTracks().forEach(t => t.stop())
-      mediaStreamRef.current = null
-    }
-    if (audioContextRef.current) {
-      audioContextRef.current.close().catch(() => {})
-      audioContextRef.current = null
-    }
-    if (playbackContextRef.current) {
-      playbackContextRef.current.close().catch(() => {})
-      playbackContextRef.current = null
+  useEffect(() => {
+    let cancelled = false
+    const refresh = () => {
+      listAudioDevices((kind, number) =>
+        t(kind === 'audioinput' ? 'settings.microphoneNumber' : 'settings.speakerNumber', { number: String(number) })
+      )
+        .then(list => {
+          if (cancelled) return
+          setInputs(list.inputs)
+          setOutputs(list.outputs)
+        })
+        .catch(() => {})
     }
-    if (wsRef.current) {
-      wsRef.current.close()
-      wsRef.current = null
+    refresh()
+    const unsubscribe = onAudioDevicesChange(refresh)
+    return () => {
+      cancelled = true
+      unsubscribe()
     }
-    nextPlayTimeRef.current = 0
-  }, [])
+  }, [t])
 
-  const startSession = useCallback(async () => {
-    try {
-      setError(null)
-      setVoiceState('connecting')
+  return (
+    <div className="space-y-3">
+      <p className="text-sm font-medium text-[hsl(0,0%,95%)]">{t('settings.devices')}</p>
+      <DeviceSelect
+        label={t('settings.microphone')}
+        devices={inputs}
+        value={settings.inputDeviceId}
+        onChange={inputDeviceId => onChange({ inputDeviceId })}
+        t={t}
+      />
+      <DeviceSelect
+        label={t('settings.speaker')}
+        devices={outputs}
+        value={settings.outputDeviceId}
+        onChange={outputDeviceId => onChange({ outputDeviceId })}
+        disabled={!canSelectOutput}
+        hint={canSelectOutput ? undefined : t('settings.outputUnsupported')}
+        t={t}
+      />
+    </div>
+  )
+}
 
-      const res = await fetch(SESSION_START_URL, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ agentId: VOICE_AGENT_ID }),
-      })
+// ─── Input Mode Settings ────────────────────────────────────────────────────────
+const INPUT_MODE_OPTIONS: { value: InputMode; label: MessageKey }[] = [
+  { value: 'open', label: 'settings.micModeOpen' },
+  { value: 'push-to-talk', label: 'settings.micModePushToTalk' },
+]
 
-      if (!res.ok) {
-        throw new Error(`Session start failed: ${res.status}`)
-      }
+function InputModeSettings({
+  value,
+  onChange,
+  t,
+}: {
+  value: InputMode
+  onChange: (mode: InputMode) => void
+  t: Translator
+}) {
+  return (
+    <div>
+      <p className="text-sm font-medium text-[hsl(0,0%,95%)]">{t('settings.micMode')}</p>
+      <p className="text-xs text-[hsl(0,0%,60%)] mt-0.5">
+        {value === 'push-to-talk' ? t('settings.micModePushToTalkHint') : t('settings.micModeOpenHint')}
+      </p>
+      <div className="mt-2 grid grid-cols-2 gap-1 rounded-sm border border-[hsl(0,0%,15%)] p-1">
+        {INPUT_MODE_OPTIONS.map(option => (
+          <button
+            key={option.value}
+            onClick={() => onChange(option.value)}
+            className={`py-1.5 rounded-sm text-xs transition-colors ${value === option.value ? 'bg-[hsl(0,0%,95%)] text-[hsl(0,0%,4%)]' : 'text-[hsl(0,0%,60%)] hover:text-[hsl(0,0%,95%)]'}`}
+          >
+            {t(option.label)}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
 
-      const data = await res.json()
-      const wsUrl = data.wsUrl
-      sampleRateRef.current = data.audioConfig?.sampleRate || 24000
-
-      if (!wsUrl) throw new Error('No WebSocket URL returned')
-
-      const audioContext = new AudioContext({ sampleRate: sampleRateRef.current })
-      audioContextRef.current = audioContext
-
-      playbackContextRef.current = new AudioContext({ sampleRate: sampleRateRef.current })
-      nextPlayTimeRef.current = 0
-
-      const stream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          sampleRate: sampleRateRef.current,
-          channelCount: 1,
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true,
-        }
-      })
-      mediaStreamRef.current = stream
-
-      const ws = new WebSocket(wsUrl)
-      wsRef.current = ws
-
-      ws.onopen = () => {
-        setVoiceState('listening')
-
-        const source = audioContext.createMediaStreamSource(stream)
-        const processor = audioContext.createScriptProcessor(4096, 1, 1)
-        processorRef.current = processor
-
-        const silentGain = audioContext.createGain()
-        silentGain.gain.value = 0
-        silentGain.connect(audioContext.destination)
-
-        source.connect(processor)
-        processor.connect(silentGain)
-
-        processor.onaudioprocess = (e) => {
-          if (ws.readyState !== WebSocket.OPEN) return
-          if (isMutedRef.current) return
-
-          const inputData = e.inputBuffer.getChannelData(0)
-          const pcm16 = new Int16Array(inputData.length)
-          for (let i = 0; i < inputData.length; i++) {
-            const s = Math.max(-1, Math.min(1, inputData[i]))
-            pcm16[i] = s < 0 ? s * 0x8000 : s * 0x7FFF
-          }
-
-          const bytes = new Uint8Array(pcm16.buffer)
-          let binary = ''
-          for (let i = 0; i < bytes.length; i++) {
-            binary += String.fromCharCode(bytes[i])
-          }
-          const base64 = btoa(binary)
-
-          ws.send(JSON.stringify({
-            type: 'audio',
-            audio: base64,
-            sampleRate: sampleRateRef.current,
-          }))
-        }
-      }
+// ─── Voice Activity Settings ────────────────────────────────────────────────────
+const VAD_SENSITIVITY_LABELS: Record<VadSensitivity, MessageKey> = {
+  low: 'settings.sensitivityLow',
+  medium: 'settings.sensitivityMedium',
+  high: 'settings.sensitivityHigh',
+}
 
-      ws.onmessage = (event) => {
-        try {
-          const msg = JSON.parse(event.data)
-
-          switch (msg.type) {
-            case 'audio':
-              setVoiceState('speaking')
-              playAudioChunk(msg.audio)
-              break
-            case 'transcript':
-              if (msg.role === 'user' && msg.text) {
-                setTranscript(prev => [...prev, { role: 'user', text: msg.text, timestamp: Date.now() }])
-              } else if (msg.role === 'assistant' && msg.text) {
-                setTranscript(prev => [...prev, { role: 'assistant', text: msg.text, timestamp: Date.now() }])
-              }
-              break
-            case 'thinking':
-              setVoiceState('thinking')
-              break
-            case 'clear':
-              nextPlayTimeRef.current = 0
-              break
-            case 'error':
-              setError(msg.message || 'Voice agent error')
-              break
-            case 'state':
-              if (msg.state === 'listening') setVoiceState('listening')
-              if (msg.state === 'thinking') setVoiceState('thinking')
-              if (msg.state === 'speaking') setVoiceState('speaking')
-              break
-          }
-        } catch (_err) {
-          // Non-JSON message, ignore
-        }
-      }
+function VadSettings({
+  settings,
+  onChange,
+  t,
+}: {
+  settings: VoiceSettings
+  onChange: (patch: Partial<VoiceSettings>) => void
+  t: Translator
+}) {
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-medium text-[hsl(0,0%,95%)]">{t('settings.vad')}</p>
+          <p className="text-xs text-[hsl(0,0%,60%)] mt-0.5">{t('settings.vadHint')}</p>
+        </div>
+        <button
+          onClick={() => onChange({ vadEnabled: !settings.vadEnabled })}
+          className={`relative w-11 h-6 rounded-full transition-colors ${settings.vadEnabled ? 'bg-[hsl(0,0%,95%)]' : 'bg-[hsl(0,0%,20%)]'}`}
+        >
+          <span className={`absolute top-0.5 start-0.5 w-5 h-5 rounded-full transition-transform ${settings.vadEnabled ? 'translate-x-5 rtl:-translate-x-5 bg-[hsl(0,0%,4%)]' : 'translate-x-0 bg-[hsl(0,0%,60%)]'}`} />
+        </button>
+      </div>
+      <div>
+        <p className="text-xs text-[hsl(0,0%,60%)]">{t('settings.vadSensitivity')}</p>
+        <div className="mt-1 grid grid-cols-3 gap-1 rounded-sm border border-[hsl(0,0%,15%)] p-1">
+          {VAD_SENSITIVITIES.map(sensitivity => (
+            <button
+              key={sensitivity}
+              onClick={() => onChange({ vadSensitivity: sensitivity })}
+              className={`py-1 rounded-sm text-xs transition-colors ${settings.vadSensitivity === sensitivity ? 'bg-[hsl(0,0%,95%)] text-[hsl(0,0%,4%)]' : 'text-[hsl(0,0%,60%)] hover:text-[hsl(0,0%,95%)]'}`}
+            >
+              {t(VAD_SENSITIVITY_LABELS[sensitivity])}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
 
-      ws.onerror = () => {
-        setError('WebSocket connection error')
-        setVoiceState('error')
-      }
+// ─── Recording Settings ─────────────────────────────────────────────────────────
+const RECORDING_LAYOUT_OPTIONS: { value: RecordingLayout; label: MessageKey }[] = [
+  { value: 'split', label: 'settings.recordLayoutSplit' },
+  { value: 'mixed', label: 'settings.recordLayoutMixed' },
+]
 
-      ws.onclose = () => {
-        setVoiceState('idle')
-        cleanup()
-      }
+function RecordingSettings({
+  settings,
+  onChange,
+  t,
+}: {
+  settings: VoiceSettings
+  onChange: (patch: Partial<VoiceSettings>) => void
+  t: Translator
+}) {
+  const [supported, setSupported] = useState(true)
+
+  useEffect(() => {
+    setSupported(supportsSessionRecording())
+  }, [])
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-medium text-[hsl(0,0%,95%)]">{t('settings.record')}</p>
+          <p className="text-xs text-[hsl(0,0%,60%)] mt-0.5">
+            {supported ? t('settings.recordHint') : t('settings.recordUnsupported')}
+          </p>
+        </div>
+        <button
+          onClick={() => onChange({ recordSessions: !settings.recordSessions })}
+          disabled={!supported}
+          className={`relative w-11 h-6 rounded-full transition-colors disabled:opacity-50 ${settings.recordSessions ? 'bg-[hsl(0,0%,95%)]' : 'bg-[hsl(0,0%,20%)]'}`}
+        >
+          <span className={`absolute top-0.5 start-0.5 w-5 h-5 rounded-full transition-transform ${settings.recordSessions ? 'translate-x-5 rtl:-translate-x-5 bg-[hsl(0,0%,4%)]' : 'translate-x-0 bg-[hsl(0,0%,60%)]'}`} />
+        </button>
+      </div>
+      {settings.recordSessions && supported && (
+        <div>
+          <p className="text-xs text-[hsl(0,0%,60%)]">{t('settings.recordLayoutHint')}</p>
+          <div className="mt-1 grid grid-cols-2 gap-1 rounded-sm border border-[hsl(0,0%,15%)] p-1">
+            {RECORDING_LAYOUT_OPTIONS.map(option => (
+              <button
+                key={option.value}
+                onClick={() => onChange({ recordingLayout: option.value })}
+                className={`py-1 rounded-sm text-xs transition-colors ${settings.recordingLayout === option.value ? 'bg-[hsl(0,0%,95%)] text-[hsl(0,0%,4%)]' : 'text-[hsl(0,0%,60%)] hover:text-[hsl(0,0%,95%)]'}`}
+              >
+                {t(option.label)}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+// ─── Session Recording ──────────────────────────────────────────────────────────
+function RecordingDownload({
+  recording,
+  transcript,
+  onDismiss,
+  t,
+}: {
+  recording: SessionRecording
+  transcript: TranscriptEntry[]
+  onDismiss: () => void
+  t: Translator
+}) {
+  const [converting, setConverting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const baseName = exportBaseName(recording.startedAt)
+  const seconds = Math.round(recording.durationMs / 1000)
 
+  const downloadWav = async () => {
+    setConverting(true)
+    setError(null)
+    try {
+      downloadBlob(await recordingToWav(recording), `${baseName}.wav`)
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to start voice session')
-      setVoiceState('error')
-      cleanup()
+      setError(err instanceof Error ? err.message : t('recording.wavFailed'))
+    } finally {
+      setConverting(false)
     }
-  }, [playAudioChunk, cleanup])
+  }
 
-  const endSession = useCallback(() => {
-    cleanup()
-    setVoiceState('idle')
-  }, [cleanup])
+  // Captions timed against the recording, limited to what was said during it
+  const downloadCaptions = () => {
+    const end = recording.startedAt + recording.durationMs
+    const entries = transcript.filter(e => e.timestamp >= recording.startedAt && e.timestamp <= end)
+    downloadTranscript(entries, 'vtt', { startedAt: recording.startedAt })
+  }
 
-  const clearTranscript = useCallback(() => {
-    setTranscript([])
-  }, [])
+  const buttonClass = 'px-2.5 py-1 rounded-sm text-[10px] tracking-wider uppercase border border-[hsl(0,0%,20%)] text-[hsl(0,0%,85%)] hover:text-[hsl(0,0%,95%)] hover:border-[hsl(0,0%,35%)] transition-colors disabled:opacity-50'
 
-  const toggleMute = useCallback(() => {
-    setIsMuted(prev => {
-      isMutedRef.current = !prev
-      return !prev
-    })
-  }, [])
+  return (
+    <div className="mt-4 px-4 py-3 rounded-sm border border-[hsl(0,0%,15%)] bg-[hsl(0,0%,6%)] max-w-sm w-full">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-[hsl(0,0%,85%)]">
+          {t('recording.title')} <span className="text-[hsl(0,0%,50%)]">· {Math.floor(seconds / 60)}:{String(seconds % 60).padStart(2, '0')}</span>
+        </p>
+        <button onClick={onDismiss} className="p-0.5 text-[hsl(0,0%,50%)] hover:text-[hsl(0,0%,95%)]" title={t('recording.dismiss')}>
+          <X size={12} />
+        </button>
+      </div>
+      <div className="mt-2 flex flex-wrap gap-1.5">
+        <button
+          onClick={() => downloadBlob(recording.blob, `${baseName}.${recordingExtension(recording)}`)}
+          className={buttonClass}
+        >
+          {recordingExtension(recording).toUpperCase()}
+        </button>
+        <button onClick={downloadWav} disabled={converting} className={buttonClass}>
+          {converting ? t('recording.converting') : 'WAV'}
+        </button>
+        <button onClick={downloadCaptions} className={buttonClass}>{t('recording.captions')}</button>
+      </div>
+      {error && <p className="mt-2 text-[10px] text-red-400">{error}</p>}
+    </div>
+  )
+}
 
-  useEffect(() => {
-    return () => cleanup()
-  }, [cleanup])
+// ─── Output Settings ────────────────────────────────────────────────────────────
+function OutputSettings({
+  settings,
+  onChange,
+  t,
+}: {
+  settings: VoiceSettings
+  onChange: (patch: Partial<VoiceSettings>) => void
+  t: Translator
+}) {
+  const percent = Math.round(settings.volume * 100)
+  const [canSpeak, setCanSpeak] = useState(true)
 
-  return {
-    voiceState,
-    transcript,
-    error,
-    isMuted,
-    startSession,
-    endSession,
-    clearTranscript,
-    toggleMute,
-  }
-}
+  useEffect(() => {
+    setCanSpeak(supportsSpeechSynthesis())
+  }, [])
 
-// ─── Error Boundary ─────────────────────────────────────────────────────────────
-class ErrorBoundary extends React.Component<
-  { children: React.ReactNode },
-  { hasError: boolean; error: string }
-> {
-  constructor(props: { children: React.ReactNode }) {
-    super(props)
-    this.state = { hasError: false, error: '' }
-  }
-  static getDerivedStateFromError(error: Error) {
-    return { hasError: true, error: error.message }
-  }
-  render() {
-    if (this.state.hasError) {
-      return (
-        <div className="min-h-screen flex items-center justify-center bg-background text-foreground">
-          <div className="text-center p-8 max-w-md">
-            <h2 className="text-xl font-semibold mb-2">Something went wrong</h2>
-            <p className="text-muted-foreground mb-4 text-sm">{this.state.error}</p>
-            <button onClick={() => this.setState({ hasError: false, error: '' })} className="px-4 py-2 bg-primary text-primary-foreground rounded-md text-sm">
-              Try again
-            </button>
-          </div>
+  return (
+    <div className="space-y-4">
+      <label className="block">
+        <span className="flex items-center justify-between">
+          <span className="text-sm font-medium text-[hsl(0,0%,95%)]">{t('settings.volume')}</span>
+          <span className="text-xs font-mono text-[hsl(0,0%,60%)]">{percent}%</span>
+        </span>
+        <input
+          type="range"
+          min={0}
+          max={100}
+          step={5}
+          value={percent}
+          onChange={e => onChange({ volume: Number(e.target.value) / 100 })}
+          className="mt-2 w-full accent-[hsl(0,0%,95%)]"
+        />
+      </label>
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-medium text-[hsl(0,0%,95%)]">{t('settings.ducking')}</p>
+          <p className="text-xs text-[hsl(0,0%,60%)] mt-0.5">{t('settings.duckingHint')}</p>
         </div>
-      )
-    }
-    return this.props.children
-  }
+        <button
+          onClick={() => onChange({ ducking: !settings.ducking })}
+          className={`relative w-11 h-6 rounded-full transition-colors ${settings.ducking ? 'bg-[hsl(0,0%,95%)]' : 'bg-[hsl(0,0%,20%)]'}`}
+        >
+          <span className={`absolute top-0.5 start-0.5 w-5 h-5 rounded-full transition-transform ${settings.ducking ? 'translate-x-5 rtl:-translate-x-5 bg-[hsl(0,0%,4%)]' : 'translate-x-0 bg-[hsl(0,0%,60%)]'}`} />
+        </button>
+      </div>
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-medium text-[hsl(0,0%,95%)]">{t('settings.speakReplies')}</p>
+          <p className="text-xs text-[hsl(0,0%,60%)] mt-0.5">
+            {canSpeak ? t('settings.speakRepliesHint') : t('settings.speakRepliesUnsupported')}
+          </p>
+        </div>
+        <button
+          onClick={() => onChange({ speakTextReplies: !settings.speakTextReplies })}
+          disabled={!canSpeak}
+          className={`relative w-11 h-6 rounded-full transition-colors disabled:opacity-50 ${settings.speakTextReplies ? 'bg-[hsl(0,0%,95%)]' : 'bg-[hsl(0,0%,20%)]'}`}
+        >
+          <span className={`absolute top-0.5 start-0.5 w-5 h-5 rounded-full transition-transform ${settings.speakTextReplies ? 'translate-x-5 rtl:-translate-x-5 bg-[hsl(0,0%,4%)]' : 'translate-x-0 bg-[hsl(0,0%,60%)]'}`} />
+        </button>
+      </div>
+    </div>
+  )
 }
 
-// ─── Status Label Map ───────────────────────────────────────────────────────────
-const STATUS_LABELS: Record<VoiceState, string> = {
-  idle: 'Tap to start',
-  connecting: 'Connecting...',
-  listening: 'Listening...',
-  thinking: 'Thinking...',
-  speaking: 'Speaking...',
-  error: 'Error occurred',
-}
+// ─── Language Settings ──────────────────────────────────────────────────────────
+function LanguageSettings({
+  value,
+  agentLanguage,
+  onChange,
+  t,
+}: {
+  value: string | null
+  /** The agent's configured language, used when nothing is chosen */
+  agentLanguage?: string
+  onChange: (language: string | null) => void
+  t: Translator
+}) {
+  const agentDefault = resolveLanguage(agentLanguage)?.nativeName || agentLanguage || DEFAULT_LANGUAGE.nativeName
 
-// ─── Time Formatter ─────────────────────────────────────────────────────────────
-function formatTime(ts: number): string {
-  const d = new Date(ts)
-  return d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+  return (
+    <label className="block">
+      <span className="text-sm font-medium text-[hsl(0,0%,95%)]">{t('settings.language')}</span>
+      <span className="block text-xs text-[hsl(0,0%,60%)] mt-0.5">{t('settings.languageHint')}</span>
+      <select
+        value={value || ''}
+        onChange={e => onChange(e.target.value || null)}
+        className="mt-2 w-full rounded-sm border border-[hsl(0,0%,15%)] bg-[hsl(0,0%,8%)] px-2 py-1.5 text-xs text-[hsl(0,0%,85%)]"
+      >
+        <option value="">{t('settings.languageDefault', { language: agentDefault })}</option>
+        {LANGUAGES.map(language => (
+          <option key={language.code} value={language.code} lang={language.code}>
+            {language.nativeName === language.name ? language.name : `${language.nativeName} (${language.name})`}
+          </option>
+        ))}
+      </select>
+    </label>
+  )
 }
 
 // ─── Settings Modal ─────────────────────────────────────────────────────────────
@@ -331,55 +575,222 @@ function SettingsModal({
   onClose,
   showTranscript,
   setShowTranscript,
+  getPlaybackStats,
+  voiceSettings,
+  onVoiceSettingsChange,
+  agentLanguage,
+  t,
+  dir,
 }: {
   open: boolean
   onClose: () => void
   showTranscript: boolean
   setShowTranscript: (v: boolean) => void
+  getPlaybackStats: () => JitterBufferStats | null
+  voiceSettings: VoiceSettings
+  onVoiceSettingsChange: (patch: Partial<VoiceSettings>) => void
+  agentLanguage?: string
+  t: Translator
+  dir: TextDirection
 }) {
   if (!open) return null
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center">
       <div className="absolute inset-0 bg-black/60" onClick={onClose} />
-      <div className="relative z-10 w-full max-w-sm mx-4 rounded-sm border border-[hsl(0,0%,15%)] bg-[hsl(0,0%,6%)] p-6">
+      <div dir={dir} className="relative z-10 w-full max-w-sm mx-4 rounded-sm border border-[hsl(0,0%,15%)] bg-[hsl(0,0%,6%)] p-6">
         <div className="flex items-center justify-between mb-6">
-          <h2 className="text-base font-semibold tracking-wide text-[hsl(0,0%,95%)]">Settings</h2>
-          <button onClick={onClose} className="p-1 rounded-sm text-[hsl(0,0%,60%)] hover:text-[hsl(0,0%,95%)] transition-colors">
+          <h2 className="text-base font-semibold tracking-wide text-[hsl(0,0%,95%)]">{t('settings.title')}</h2>
+          <button onClick={onClose} title={t('settings.close')} className="p-1 rounded-sm text-[hsl(0,0%,60%)] hover:text-[hsl(0,0%,95%)] transition-colors">
             <FiX size={18} />
           </button>
         </div>
         <div className="space-y-5">
           <div className="flex items-center justify-between">
             <div>
-              <p className="text-sm font-medium text-[hsl(0,0%,95%)]">Show transcript</p>
-              <p className="text-xs text-[hsl(0,0%,60%)] mt-0.5">Display conversation text below</p>
+              <p className="text-sm font-medium text-[hsl(0,0%,95%)]">{t('settings.showTranscript')}</p>
+              <p className="text-xs text-[hsl(0,0%,60%)] mt-0.5">{t('settings.showTranscriptHint')}</p>
             </div>
             <button
               onClick={() => setShowTranscript(!showTranscript)}
               className={`relative w-11 h-6 rounded-full transition-colors ${showTranscript ? 'bg-[hsl(0,0%,95%)]' : 'bg-[hsl(0,0%,20%)]'}`}
             >
-              <span className={`absolute top-0.5 left-0.5 w-5 h-5 rounded-full transition-transform ${showTranscript ? 'translate-x-5 bg-[hsl(0,0%,4%)]' : 'translate-x-0 bg-[hsl(0,0%,60%)]'}`} />
+              <span className={`absolute top-0.5 start-0.5 w-5 h-5 rounded-full transition-transform ${showTranscript ? 'translate-x-5 rtl:-translate-x-5 bg-[hsl(0,0%,4%)]' : 'translate-x-0 bg-[hsl(0,0%,60%)]'}`} />
             </button>
           </div>
+          <div className="pt-5 border-t border-[hsl(0,0%,15%)]">
+            <LanguageSettings
+              value={voiceSettings.language}
+              agentLanguage={agentLanguage}
+              onChange={language => onVoiceSettingsChange({ language })}
+              t={t}
+            />
+          </div>
+          <div className="pt-5 border-t border-[hsl(0,0%,15%)]">
+            <InputModeSettings
+              value={voiceSettings.inputMode}
+              onChange={inputMode => onVoiceSettingsChange({ inputMode })}
+              t={t}
+            />
+          </div>
+          {voiceSettings.inputMode === 'open' && (
+            <div className="pt-5 border-t border-[hsl(0,0%,15%)]">
+              <VadSettings settings={voiceSettings} onChange={onVoiceSettingsChange} t={t} />
+            </div>
+          )}
+          <div className="pt-5 border-t border-[hsl(0,0%,15%)]">
+            <OutputSettings settings={voiceSettings} onChange={onVoiceSettingsChange} t={t} />
+          </div>
+          <div className="pt-5 border-t border-[hsl(0,0%,15%)]">
+            <RecordingSettings settings={voiceSettings} onChange={onVoiceSettingsChange} t={t} />
+          </div>
+          <div className="pt-5 border-t border-[hsl(0,0%,15%)]">
+            <DeviceSettings settings={voiceSettings} onChange={onVoiceSettingsChange} t={t} />
+          </div>
+          <div className="pt-5 border-t border-[hsl(0,0%,15%)]">
+            <PlaybackDiagnostics getStats={getPlaybackStats} t={t} />
+          </div>
         </div>
       </div>
     </div>
   )
 }
 
+// ─── Live Visualisers ───────────────────────────────────────────────────────────
+const LOW_POWER_INTERVAL_MS = 250
+const SPECTRUM_BARS = 7
+
+// Calls `draw` every animation frame, or a few times a second in low-power
+// mode. Drawing writes straight to the DOM so React never re-renders per frame.
+function useDrawLoop(draw: () => void, lowPower: boolean) {
+  const drawRef = useRef(draw)
+  drawRef.current = draw
+
+  useEffect(() => {
+    if (lowPower) {
+      const id = setInterval(() => drawRef.current(), LOW_POWER_INTERVAL_MS)
+      return () => clearInterval(id)
+    }
+    let frame = requestAnimationFrame(function tick() {
+      drawRef.current()
+      frame = requestAnimationFrame(tick)
+    })
+    return () => cancelAnimationFrame(frame)
+  }, [lowPower])
+}
+
+// Each session creates new analysers, so the reader is rebuilt when it changes
+function useLevelReader(getAnalyser: () => AnalyserNode | null) {
+  const readerRef = useRef<LevelReader | null>(null)
+  return () => {
+    const analyser = getAnalyser()
+    if (!analyser) return null
+    if (readerRef.current?.source !== analyser) readerRef.current = new LevelReader(analyser)
+    return readerRef.current
+  }
+}
+
+function InputLevelRings({
+  getAnalyser,
+  reducedMotion,
+}: {
+  getAnalyser: () => AnalyserNode | null
+  reducedMotion: boolean
+}) {
+  const ringRefs = useRef<(HTMLDivElement | null)[]>([])
+  const getReader = useLevelReader(getAnalyser)
+
+  useDrawLoop(() => {
+    const level = getReader()?.level() ?? 0
+    ringRefs.current.forEach((ring, i) => {
+      if (!ring) return
+      const opacity = Math.min(0.6, (0.25 - i * 0.08) * (0.5 + level * 2))
+      ring.style.opacity = String(opacity)
+      // Reduced motion: level is shown by brightness alone
+      if (!reducedMotion) ring.style.transform = `scale(${1 + level * (0.1 + i * 0.08)})`
+    })
+  }, reducedMotion)
+
+  const insets = reducedMotion ? ['inset-0'] : ['inset-0', 'inset-[-10px]', 'inset-[-20px]']
+
+  return (
+    <>
+      {insets.map((inset, i) => (
+        <div
+          key={inset}
+          ref={el => { ringRefs.current[i] = el }}
+          className={`absolute ${inset} rounded-full border border-[hsl(0,0%,95%)] opacity-0`}
+        />
+      ))}
+    </>
+  )
+}
+
+function OutputSpectrumBars({
+  getAnalyser,
+  reducedMotion,
+}: {
+  getAnalyser: () => AnalyserNode | null
+  reducedMotion: boolean
+}) {
+  const barRefs = useRef<(HTMLDivElement | null)[]>([])
+  const getReader = useLevelReader(getAnalyser)
+
+  useDrawLoop(() => {
+    const bands = getReader()?.bands(SPECTRUM_BARS)
+    barRefs.current.forEach((bar, i) => {
+      if (!bar) return
+      const value = bands ? bands[i] : 0
+      bar.style.height = `${4 + Math.round(value * 24)}px`
+      bar.style.opacity = String(0.3 + value * 0.5)
+    })
+  }, reducedMotion)
+
+  return (
+    <div className="absolute -top-8 left-1/2 -translate-x-1/2 flex items-end gap-[3px] h-7">
+      {Array.from({ length: SPECTRUM_BARS }, (_, i) => (
+        <div
+          key={i}
+          ref={el => { barRefs.current[i] = el }}
+          className="w-[3px] rounded-full bg-[hsl(0,0%,95%)]"
+          style={{ height: '4px', opacity: 0.3 }}
+        />
+      ))}
+    </div>
+  )
+}
+
 // ─── Mic Button ─────────────────────────────────────────────────────────────────
 function MicButton({
   voiceState,
   onStart,
   onStop,
+  pushToTalk = false,
+  isTalking = false,
+  userSpeaking = false,
+  onTalkStart,
+  onTalkEnd,
+  getInputAnalyser,
+  getOutputAnalyser,
 }: {
   voiceState: VoiceState
   onStart: () => void
   onStop: () => void
+  pushToTalk?: boolean
+  isTalking?: boolean
+  /** Voice activity detected on the microphone */
+  userSpeaking?: boolean
+  onTalkStart?: () => void
+  onTalkEnd?: () => void
+  getInputAnalyser: () => AnalyserNode | null
+  getOutputAnalyser: () => AnalyserNode | null
 }) {
+  const reducedMotion = useReducedMotion()
   const isActive = voiceState !== 'idle' && voiceState !== 'error'
   const isError = voiceState === 'error'
+  // During a push-to-talk session the button is held to talk; ending the
+  // session moves to a separate control.
+  const holdToTalk = pushToTalk && isActive
 
   const handleClick = () => {
     if (isActive) {
@@ -403,6 +814,19 @@ function MicButton({
 
   const iconColor = isActive && !isError ? 'text-[hsl(0,0%,4%)]' : 'text-[hsl(0,0%,95%)]'
 
+  const holdHandlers = holdToTalk
+    ? {
+        onPointerDown: (e: React.PointerEvent<HTMLButtonElement>) => {
+          e.currentTarget.setPointerCapture(e.pointerId)
+          onTalkStart?.()
+        },
+        onPointerUp: () => onTalkEnd?.(),
+        onPointerCancel: () => onTalkEnd?.(),
+        onLostPointerCapture: () => onTalkEnd?.(),
+        onContextMenu: (e: React.MouseEvent) => e.preventDefault(),
+      }
+    : { onClick: handleClick }
+
   return (
     <div className="relative flex items-center justify-center" style={{ width: '176px', height: '176px' }}>
       {/* Static ring (idle) */}
@@ -413,13 +837,9 @@ function MicButton({
         <div className="absolute inset-0 rounded-full border-2 border-[hsl(0,0%,95%)]/30 voiceflow-pulse-ring" />
       )}
 
-      {/* Listening: expanding pulse rings */}
+      {/* Listening: rings follow the microphone level */}
       {voiceState === 'listening' && (
-        <>
-          <div className="absolute inset-0 rounded-full border border-[hsl(0,0%,95%)]/25 voiceflow-expand-ring-1" />
-          <div className="absolute inset-[-10px] rounded-full border border-[hsl(0,0%,95%)]/15 voiceflow-expand-ring-2" />
-          <div className="absolute inset-[-20px] rounded-full border border-[hsl(0,0%,95%)]/8 voiceflow-expand-ring-3" />
-        </>
+        <InputLevelRings getAnalyser={getInputAnalyser} reducedMotion={reducedMotion} />
       )}
 
       {/* Thinking: rotating dots */}
@@ -441,28 +861,25 @@ function MicButton({
         </div>
       )}
 
-      {/* Speaking: waveform bars */}
+      {/* Speaking: assistant output spectrum */}
       {voiceState === 'speaking' && (
-        <div className="absolute -top-8 left-1/2 -translate-x-1/2 flex items-end gap-[3px]">
-          {[0, 1, 2, 3, 4, 5, 6].map((i) => (
-            <div
-              key={i}
-              className="w-[3px] rounded-full bg-[hsl(0,0%,95%)]/40 voiceflow-bar"
-              style={{
-                animationDelay: `${i * 0.1}s`,
-                height: '14px',
-              }}
-            />
-          ))}
-        </div>
+        <OutputSpectrumBars getAnalyser={getOutputAnalyser} reducedMotion={reducedMotion} />
+      )}
+
+      {/* User talking: glow driven by voice activity detection */}
+      {isActive && userSpeaking && (
+        <div className="absolute inset-[30px] rounded-full bg-[hsl(0,0%,95%)]/15 blur-md transition-opacity" />
       )}
 
       {/* The button */}
       <button
-        onClick={handleClick}
-        className={`relative z-10 w-24 h-24 rounded-full flex items-center justify-center transition-all duration-300 ${buttonBg} ${iconColor}`}
+        {...holdHandlers}
+        aria-pressed={holdToTalk ? isTalking : undefined}
+        className={`relative z-10 w-24 h-24 rounded-full flex items-center justify-center transition-all duration-300 select-none touch-none ${buttonBg} ${iconColor} ${holdToTalk && isTalking ? 'scale-110 ring-4 ring-[hsl(0,0%,95%)]/30' : ''}`}
       >
-        {isActive ? (
+        {holdToTalk ? (
+          <Mic size={32} />
+        ) : isActive ? (
           <FiSquare size={28} />
         ) : (
           <FiMic size={32} />
@@ -472,15 +889,71 @@ function MicButton({
   )
 }
 
+// ─── Export Menu ────────────────────────────────────────────────────────────────
+function ExportMenu({ onExport, t }: { onExport: (format: TranscriptExportFormat) => void; t: Translator }) {
+  const [open, setOpen] = useState(false)
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  useDismiss(menuRef, open, () => setOpen(false))
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        aria-haspopup="menu"
+        aria-expanded={open}
+        className="flex items-center gap-1.5 text-xs text-[hsl(0,0%,60%)] hover:text-[hsl(0,0%,95%)] transition-colors px-2 py-1 rounded-sm"
+      >
+        <Download size={12} />
+        <span>{t('transcript.export')}</span>
+      </button>
+      {open && (
+        <div role="menu" className="absolute end-0 top-full mt-1 z-20 min-w-[160px] py-1 rounded-sm border border-[hsl(0,0%,15%)] bg-[hsl(0,0%,6%)] shadow-lg">
+          {(Object.keys(EXPORT_FORMATS) as TranscriptExportFormat[]).map(format => (
+            <button
+              key={format}
+              role="menuitem"
+              onClick={() => {
+                setOpen(false)
+                onExport(format)
+              }}
+              className="w-full flex items-center justify-between px-3 py-1.5 text-xs text-start text-[hsl(0,0%,85%)] hover:bg-[hsl(0,0%,12%)]"
+            >
+              <span>{t(EXPORT_FORMAT_LABELS[format])}</span>
+              <span className="font-mono text-[10px] text-[hsl(0,0%,40%)]">.{EXPORT_FORMATS[format].extension}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
 // ─── Transcript Panel ───────────────────────────────────────────────────────────
 function TranscriptPanel({
   transcript,
   onClear,
+  onExport,
   visible,
+  replayableIds = [],
+  replayingId = null,
+  onReplay,
+  onStopReplay,
+  t,
+  dir,
 }: {
   transcript: TranscriptEntry[]
   onClear: () => void
+  onExport: (format: TranscriptExportFormat) => void
   visible: boolean
+  /** Assistant entries whose audio can be played again */
+  replayableIds?: string[]
+  replayingId?: string | null
+  onReplay?: (id: string) => void
+  onStopReplay?: () => void
+  t: Translator
+  /** Interface direction; each entry also follows its own language */
+  dir: TextDirection
 }) {
   const scrollRef = useRef<HTMLDivElement>(null)
 
@@ -493,17 +966,20 @@ function TranscriptPanel({
   if (!visible) return null
 
   return (
-    <div className="w-full max-w-lg mx-auto flex flex-col h-full min-h-0">
+    <div dir={dir} className="w-full max-w-lg mx-auto flex flex-col h-full min-h-0">
       {/* Header */}
       <div className="flex items-center justify-between px-1 py-2 flex-shrink-0">
-        <h3 className="text-xs font-medium tracking-widest uppercase text-[hsl(0,0%,60%)]">Transcript</h3>
-        <button
-          onClick={onClear}
-          className="flex items-center gap-1.5 text-xs text-[hsl(0,0%,60%)] hover:text-[hsl(0,0%,95%)] transition-colors px-2 py-1 rounded-sm"
-        >
-          <FiRefreshCw size={12} />
-          <span>New Conversation</span>
-        </button>
+        <h3 className="text-xs font-medium tracking-widest uppercase text-[hsl(0,0%,60%)]">{t('transcript.title')}</h3>
+        <div className="flex items-center gap-1">
+          {transcript.length > 0 && <ExportMenu onExport={onExport} t={t} />}
+          <button
+            onClick={onClear}
+            className="flex items-center gap-1.5 text-xs text-[hsl(0,0%,60%)] hover:text-[hsl(0,0%,95%)] transition-colors px-2 py-1 rounded-sm"
+          >
+            <FiRefreshCw size={12} />
+            <span>{t('transcript.newConversation')}</span>
+          </button>
+        </div>
       </div>
 
       {/* Messages */}
@@ -513,41 +989,186 @@ function TranscriptPanel({
       >
         {transcript.length === 0 && (
           <div className="flex items-center justify-center py-12">
-            <p className="text-sm text-[hsl(0,0%,30%)] tracking-wide">Your conversation will appear here</p>
+            <p className="text-sm text-[hsl(0,0%,30%)] tracking-wide">{t('transcript.empty')}</p>
           </div>
         )}
-        {transcript.map((entry, idx) => (
+        {transcript.map((entry) => {
+          // Unknown or missing languages let the browser infer direction from the text
+          const language = resolveLanguage(entry.language)
+          return (
           <div
-            key={idx}
+            key={entry.id}
             className={`flex ${entry.role === 'user' ? 'justify-end' : 'justify-start'}`}
           >
             <div
               className={`max-w-[80%] px-4 py-2.5 rounded-sm ${entry.role === 'user' ? 'bg-[hsl(0,0%,15%)] text-[hsl(0,0%,95%)]' : 'bg-[hsl(0,0%,8%)] text-[hsl(0,0%,85%)] border border-[hsl(0,0%,15%)]'}`}
             >
-              <p className="text-sm leading-relaxed">{entry.text}</p>
-              <p className="text-[10px] mt-1.5 text-[hsl(0,0%,40%)] tracking-wider">
-                {formatTime(entry.timestamp)}
-              </p>
+              <div lang={language?.code} dir={language?.dir ?? 'auto'}>
+                {entry.interrupted ? (
+                  <InterruptedText text={entry.text} spokenRatio={entry.spokenRatio ?? 1} />
+                ) : (
+                  <p className={`text-sm leading-relaxed transition-opacity ${entry.isFinal ? '' : 'opacity-50 italic'}`}>{entry.text}</p>
+                )}
+              </div>
+              <div className="flex items-center gap-2 mt-1.5">
+                <p className="text-[10px] text-[hsl(0,0%,40%)] tracking-wider">
+                  {formatTime(entry.timestamp)}
+                  {entry.interrupted && <span className="ms-2 uppercase text-[hsl(0,0%,50%)]">{t('transcript.interrupted')}</span>}
+                  {entry.typed && <span className="ms-2 uppercase text-[hsl(0,0%,50%)]">{t('transcript.typed')}</span>}
+                </p>
+                {entry.role === 'assistant' && replayableIds.includes(entry.id) && (
+                  <button
+                    onClick={() => (replayingId === entry.id ? onStopReplay?.() : onReplay?.(entry.id))}
+                    title={replayingId === entry.id ? t('transcript.stopReplay') : t('transcript.replay')}
+                    className={`ms-auto p-0.5 rounded-sm transition-colors ${replayingId === entry.id ? 'text-[hsl(0,0%,95%)]' : 'text-[hsl(0,0%,40%)] hover:text-[hsl(0,0%,95%)]'}`}
+                  >
+                    {replayingId === entry.id ? <Square size={10} /> : <Play size={10} />}
+                  </button>
+                )}
+              </div>
             </div>
           </div>
-        ))}
+          )
+        })}
       </div>
     </div>
   )
 }
 
+// ─── Text Composer ──────────────────────────────────────────────────────────────
+function TextComposer({
+  onSend,
+  sending,
+  error,
+  t,
+}: {
+  onSend: (message: string) => Promise<boolean>
+  sending: boolean
+  error: string | null
+  t: Translator
+}) {
+  const [draft, setDraft] = useState('')
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!draft.trim() || sending) return
+    const message = draft
+    setDraft('')
+    // Keep the text if it could not be delivered so it can be resent
+    if (!(await onSend(message))) setDraft(current => current || message)
+  }
+
+  return (
+    <form onSubmit={submit} className="w-full max-w-lg mx-auto flex-shrink-0 pt-2">
+      {error && <p className="mb-1.5 px-1 text-xs text-red-400">{error}</p>}
+      <div className="flex items-center gap-2 rounded-sm border border-[hsl(0,0%,15%)] bg-[hsl(0,0%,6%)] px-3 py-2 focus-within:border-[hsl(0,0%,30%)] transition-colors">
+        <input
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          placeholder={sending ? t('composer.waiting') : t('composer.placeholder')}
+          aria-label={t('composer.label')}
+          dir="auto"
+          className="flex-1 min-w-0 bg-transparent text-sm text-[hsl(0,0%,95%)] placeholder:text-[hsl(0,0%,35%)] outline-none"
+        />
+        <button
+          type="submit"
+          disabled={sending || !draft.trim()}
+          title={t('composer.send')}
+          className="p-1 rounded-sm text-[hsl(0,0%,60%)] hover:text-[hsl(0,0%,95%)] disabled:opacity-40 disabled:hover:text-[hsl(0,0%,60%)] transition-colors"
+        >
+          <Send size={14} />
+        </button>
+      </div>
+    </form>
+  )
+}
+
+// ─── Agent Switcher ─────────────────────────────────────────────────────────────
+function AgentSwitcher({
+  agents,
+  value,
+  onChange,
+  sessionActive,
+  t,
+}: {
+  agents: VoiceAgent[]
+  value: VoiceAgent
+  onChange: (agentId: string) => void
+  sessionActive: boolean
+  t: Translator
+}) {
+  const [open, setOpen] = useState(false)
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  useDismiss(menuRef, open, () => setOpen(false))
+
+  if (agents.length < 2) return null
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        aria-haspopup="menu"
+        aria-expanded={open}
+        title={sessionActive ? t('agent.switchEndsSession') : t('agent.choose')}
+        className="flex items-center gap-1.5 px-2 py-1 rounded-sm text-xs text-[hsl(0,0%,60%)] hover:text-[hsl(0,0%,95%)] transition-colors"
+      >
+        <span className="max-w-[140px] truncate">{value.name}</span>
+        <ChevronDown size={12} />
+      </button>
+      {open && (
+        <div role="menu" className="absolute start-0 top-full mt-1 z-20 w-64 py-1 rounded-sm border border-[hsl(0,0%,15%)] bg-[hsl(0,0%,6%)] shadow-lg">
+          {agents.map(agent => (
+            <button
+              key={agent.id}
+              role="menuitemradio"
+              aria-checked={agent.id === value.id}
+              onClick={() => {
+                setOpen(false)
+                if (agent.id !== value.id) onChange(agent.id)
+              }}
+              className="w-full flex items-start gap-2 px-3 py-2 text-start hover:bg-[hsl(0,0%,12%)]"
+            >
+              <span className="w-3 pt-0.5 flex-shrink-0 text-[hsl(0,0%,95%)]">
+                {agent.id === value.id && <Check size={12} />}
+              </span>
+              <span className="min-w-0">
+                <span className="block text-xs text-[hsl(0,0%,85%)] truncate">{agent.name}</span>
+                {agent.description && (
+                  <span className="block mt-0.5 text-[10px] leading-snug text-[hsl(0,0%,50%)]">{agent.description}</span>
+                )}
+                {(agent.language || agent.voice) && (
+                  <span className="block mt-0.5 text-[10px] tracking-wider uppercase text-[hsl(0,0%,35%)]">
+                    {[agent.language, agent.voice].filter(Boolean).join(' · ')}
+                  </span>
+                )}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
 // ─── Agent Info Footer ──────────────────────────────────────────────────────────
-function AgentInfo({ voiceState }: { voiceState: VoiceState }) {
+function AgentInfo({ voiceState, agent, t }: { voiceState: VoiceState; agent: VoiceAgent; t: Translator }) {
   const isActive = voiceState !== 'idle' && voiceState !== 'error'
+  const details = [agent.model, agent.voice && t('agent.voice', { voice: agent.voice }), agent.language].filter(Boolean)
 
   return (
     <div className="flex items-center gap-2 px-4 py-2 border-t border-[hsl(0,0%,15%)] flex-shrink-0">
       <div className={`w-1.5 h-1.5 rounded-full transition-colors ${isActive ? 'bg-green-400' : 'bg-[hsl(0,0%,30%)]'}`} />
-      <span className="text-[10px] tracking-wider uppercase text-[hsl(0,0%,40%)]">
-        Voice Assistant Agent
+      <span className="text-[10px] tracking-wider uppercase text-[hsl(0,0%,40%)]" title={agent.description}>
+        {agent.name}
       </span>
-      <span className="text-[10px] text-[hsl(0,0%,25%)] ml-auto font-mono">
-        {VOICE_AGENT_ID.slice(0, 8)}
+      {details.length > 0 && (
+        <span className="hidden sm:inline text-[10px] tracking-wider text-[hsl(0,0%,30%)] truncate" title={agent.provider}>
+          {details.join(' · ')}
+        </span>
+      )}
+      <span className="text-[10px] text-[hsl(0,0%,25%)] ms-auto font-mono">
+        {agent.id.slice(0, 8)}
       </span>
     </div>
   )
@@ -556,7 +1177,7 @@ function AgentInfo({ voiceState }: { voiceState: VoiceState }) {
 // ─── Sample Data ────────────────────────────────────────────────────────────────
 function getSampleTranscript(): TranscriptEntry[] {
   const now = Date.now()
-  return [
+  const entries: Omit<TranscriptEntry, 'id' | 'isFinal'>[] = [
     { role: 'user', text: 'Hey, what is the weather like today?', timestamp: now - 120000 },
     { role: 'assistant', text: 'Based on current conditions, it looks like a clear day with temperatures around 72 degrees Fahrenheit. Perfect weather for spending time outdoors.', timestamp: now - 110000 },
     { role: 'user', text: 'Can you recommend a good restaurant nearby?', timestamp: now - 90000 },
@@ -564,129 +1185,402 @@ function getSampleTranscript(): TranscriptEntry[] {
     { role: 'user', text: 'Italian sounds great, something with outdoor seating.', timestamp: now - 60000 },
     { role: 'assistant', text: 'Great choice! Look for trattorias in your area -- they typically have charming patio seating. I would suggest searching for places with fresh pasta and wood-fired pizza, as those tend to have the best atmosphere for outdoor dining.', timestamp: now - 50000 },
   ]
+  return entries.map((entry, i) => ({ ...entry, id: `sample-${i}`, isFinal: true }))
+}
+
+// Keyboard shortcuts are ignored while the user is typing in a form control
+function isTyping(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement &&
+    (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+}
+
+// ─── No Agents ──────────────────────────────────────────────────────────────────
+function NoVoiceAgents() {
+  const { settings } = useVoiceSettings()
+  const language = resolveLanguage(settings.language) || DEFAULT_LANGUAGE
+  const t = useMemo(() => createTranslator(language.code), [language.code])
+
+  return (
+    <div style={THEME_VARS} dir={language.dir} className="min-h-screen flex items-center justify-center px-6 bg-[hsl(0,0%,4%)] text-[hsl(0,0%,95%)] font-sans">
+      <div className="max-w-sm text-center">
+        <h1 className="text-sm font-semibold tracking-[0.15em] uppercase">VoiceFlow</h1>
+        <p className="mt-4 text-sm text-[hsl(0,0%,60%)]">{t('agent.none')}</p>
+        <p className="mt-1 text-xs text-[hsl(0,0%,40%)] leading-relaxed">
+          {t('agent.noneHint')}
+        </p>
+      </div>
+    </div>
+  )
 }
 
 // ─── Main Page ──────────────────────────────────────────────────────────────────
 export default function Page() {
+  // The registry is fixed at build time, so this never changes between renders
+  if (VOICE_AGENTS.length === 0) return <NoVoiceAgents />
+  return <VoicePage />
+}
+
+function VoicePage() {
+  const { settings: voiceSettings, updateSettings: updateVoiceSettings } = useVoiceSettings()
+  const agent = getVoiceAgent(voiceSettings.agentId) || VOICE_AGENTS[0]
+  // The chosen language wins over the agent's; the interface falls back to English
+  const selectedLanguage = resolveLanguage(voiceSettings.language)
+  const agentLanguage = resolveLanguage(agent.language)
+  const sessionLanguage = selectedLanguage?.code || agentLanguage?.code || agent.language || null
+  const uiLanguage = selectedLanguage || agentLanguage || DEFAULT_LANGUAGE
+  const t = useMemo(() => createTranslator(uiLanguage.code), [uiLanguage.code])
+
   const {
+    session,
     voiceState,
     transcript,
     error,
     isMuted,
+    isTalking,
+    isUserSpeaking,
+    recording,
+    replayableIds,
+    replayingId,
     startSession,
     endSession,
     clearTranscript,
     toggleMute,
-  } = useVoiceAgent()
-
+    getPlaybackStats,
+    getInputAnalyser,
+    getOutputAnalyser,
+    setInputDevice,
+    setOutputDevice,
+    setVolume,
+    setDucking,
+    setInputMode,
+    startTalking,
+    stopTalking,
+    setVadGating,
+    setVadSensitivity,
+    setRecordingLayout,
+    clearRecording,
+    replayTurn,
+    stopReplay,
+    setLanguage,
+  } = useVoiceSession({
+    agentId: agent.id,
+    sessionStartUrl: SESSION_START_URL,
+    captureFrameMs: CAPTURE_FRAME_MS,
+    jitterTargetMs: JITTER_TARGET_MS,
+  })
+
+  const textChat = useTextChat({
+    session,
+    agentId: agent.id,
+    t,
+    speakReplies: voiceSettings.speakTextReplies,
+    volume: voiceSettings.volume,
+    language: sessionLanguage || undefined,
+  })
   const [settingsOpen, setSettingsOpen] = useState(false)
   const [showTranscript, setShowTranscript] = useState(true)
   const [sampleData, setSampleData] = useState(false)
   const [sampleTranscript, setSampleTranscript] = useState<TranscriptEntry[]>([])
 
+  // Swaps the live microphone/speaker mid-session; otherwise used on next start
+  useEffect(() => {
+    setInputDevice(voiceSettings.inputDeviceId)
+  }, [setInputDevice, voiceSettings.inputDeviceId])
+
+  useEffect(() => {
+    setOutputDevice(voiceSettings.outputDeviceId)
+  }, [setOutputDevice, voiceSettings.outputDeviceId])
+
+  useEffect(() => {
+    setVolume(voiceSettings.volume)
+  }, [setVolume, voiceSettings.volume])
+
+  useEffect(() => {
+    setDucking(voiceSettings.ducking)
+  }, [setDucking, voiceSettings.ducking])
+
+  useEffect(() => {
+    setInputMode(voiceSettings.inputMode)
+  }, [setInputMode, voiceSettings.inputMode])
+
+  useEffect(() => {
+    setVadGating(voiceSettings.vadEnabled)
+  }, [setVadGating, voiceSettings.vadEnabled])
+
+  useEffect(() => {
+    setVadSensitivity(voiceSettings.vadSensitivity)
+  }, [setVadSensitivity, voiceSettings.vadSensitivity])
+
+  useEffect(() => {
+    setRecordingLayout(voiceSettings.recordSessions ? voiceSettings.recordingLayout : null)
+  }, [setRecordingLayout, voiceSettings.recordSessions, voiceSettings.recordingLayout])
+
+  useEffect(() => {
+    setLanguage(sessionLanguage)
+  }, [setLanguage, sessionLanguage])
+
+  const isSessionActive = voiceState !== 'idle' && voiceState !== 'error'
+  const pushToTalk = voiceSettings.inputMode === 'push-to-talk'
+
+  // Hold space to talk, unless the user is typing in a form control
+  useEffect(() => {
+    if (!pushToTalk || !isSessionActive) return
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e.target)) return
+      e.preventDefault()
+      if (!e.repeat) startTalking()
+    }
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e.target)) return
+      e.preventDefault()
+      stopTalking()
+    }
+
+    window.addEventListener('keydown', onKeyDown)
+    window.addEventListener('keyup', onKeyUp)
+    window.addEventListener('blur', stopTalking)
+    return () => {
+      window.removeEventListener('keydown', onKeyDown)
+      window.removeEventListener('keyup', onKeyUp)
+      window.removeEventListener('blur', stopTalking)
+      stopTalking()
+    }
+  }, [pushToTalk, isSessionActive, startTalking, stopTalking])
+
+  // "Repeat that": R replays the last assistant turn from retained audio
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'KeyR' || e.repeat || e.ctrlKey || e.metaKey || e.altKey || isTyping(e.target)) return
+      e.preventDefault()
+      replayTurn()
+    }
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  }, [replayTurn])
+
   useEffect(() => {
     if (sampleData) {
       setSampleTranscript(getSampleTranscript())
     }
   }, [sampleData])
 
-  const displayTranscript = sampleData && transcript.length === 0 ? sampleTranscript : transcript
+  const history = useConversationHistory({
+    agentId: agent.id,
+    transcript,
+    active: isSessionActive,
+    t,
+  })
+  const [selectedConversationId, setSelectedConversationId] = useState<string | null>(null)
+  const viewedConversation = selectedConversationId && selectedConversationId !== history.currentId
+    ? history.conversations.find(c => c.id === selectedConversationId) || null
+    : null
+
+  const liveTranscript = sampleData && transcript.length === 0 ? sampleTranscript : transcript
+  const displayTranscript = viewedConversation ? viewedConversation.transcript : liveTranscript
+
+  const handleNewConversation = () => {
+    setSelectedConversationId(null)
+    clearTranscript()
+  }
+
+  const handleExport = (format: TranscriptExportFormat) => {
+    const record = viewedConversation || history.conversations.find(c => c.id === history.currentId)
+    downloadTranscript(displayTranscript, format, record
+      ? { title: record.title, agentId: record.agentId, startedAt: record.startedAt }
+      : { agentId: agent.id })
+  }
+
+  // Each agent keeps its own transcript; switching ends the live session
+  const handleAgentChange = (agentId: string) => {
+    setSelectedConversationId(null)
+    updateVoiceSettings({ agentId })
+  }
+  const agentConversations = history.conversations.filter(c => c.agentId === agent.id)
+
+  const handleDeleteConversation = (id: string) => {
+    if (selectedConversationId === id) setSelectedConversationId(null)
+    history.remove(id)
+  }
 
   return (
-    <ErrorBoundary>
-      <div style={THEME_VARS} className="min-h-screen bg-[hsl(0,0%,4%)] text-[hsl(0,0%,95%)] font-sans flex flex-col">
-        {/* Header */}
-        <header className="flex items-center justify-between px-6 py-4 border-b border-[hsl(0,0%,15%)] flex-shrink-0">
-          <h1 className="text-sm font-semibold tracking-[0.15em] uppercase text-[hsl(0,0%,95%)]">VoiceFlow</h1>
-          <div className="flex items-center gap-3">
-            {/* Sample Data Toggle */}
-            <div className="flex items-center gap-2">
-              <span className="text-[10px] tracking-wider uppercase text-[hsl(0,0%,40%)]">Sample Data</span>
-              <button
-                onClick={() => setSampleData(!sampleData)}
-                className={`relative w-9 h-5 rounded-full transition-colors ${sampleData ? 'bg-[hsl(0,0%,95%)]' : 'bg-[hsl(0,0%,20%)]'}`}
-              >
-                <span className={`absolute top-0.5 left-0.5 w-4 h-4 rounded-full transition-transform ${sampleData ? 'translate-x-4 bg-[hsl(0,0%,4%)]' : 'translate-x-0 bg-[hsl(0,0%,50%)]'}`} />
-              </button>
+    <ErrorBoundary t={t}>
+      <SidebarProvider defaultOpen={false} style={THEME_VARS} className="bg-[hsl(0,0%,4%)]">
+        <ConversationHistorySidebar
+          conversations={agentConversations}
+          currentId={history.currentId}
+          selectedId={viewedConversation ? viewedConversation.id : history.currentId}
+          error={history.error}
+          onSelect={id => setSelectedConversationId(id === history.currentId ? null : id)}
+          onRename={history.rename}
+          onDelete={handleDeleteConversation}
+          t={t}
+          dir={uiLanguage.dir}
+        />
+        <div dir={uiLanguage.dir} className="flex-1 min-w-0 min-h-screen bg-[hsl(0,0%,4%)] text-[hsl(0,0%,95%)] font-sans flex flex-col">
+          {/* Header */}
+          <header className="flex items-center justify-between px-6 py-4 border-b border-[hsl(0,0%,15%)] flex-shrink-0">
+            <div className="flex items-center gap-3">
+              <SidebarTrigger className="text-[hsl(0,0%,60%)] hover:text-[hsl(0,0%,95%)] hover:bg-transparent" />
+              <h1 className="text-sm font-semibold tracking-[0.15em] uppercase text-[hsl(0,0%,95%)]">VoiceFlow</h1>
+              <AgentSwitcher
+                agents={VOICE_AGENTS}
+                value={agent}
+                onChange={handleAgentChange}
+                sessionActive={isSessionActive}
+                t={t}
+              />
             </div>
+            <div className="flex items-center gap-3">
+              {/* Sample Data Toggle */}
+              <div className="flex items-center gap-2">
+                <span className="text-[10px] tracking-wider uppercase text-[hsl(0,0%,40%)]">{t('header.sampleData')}</span>
+                <button
+                  onClick={() => setSampleData(!sampleData)}
+                  className={`relative w-9 h-5 rounded-full transition-colors ${sampleData ? 'bg-[hsl(0,0%,95%)]' : 'bg-[hsl(0,0%,20%)]'}`}
+                >
+                  <span className={`absolute top-0.5 start-0.5 w-4 h-4 rounded-full transition-transform ${sampleData ? 'translate-x-4 rtl:-translate-x-4 bg-[hsl(0,0%,4%)]' : 'translate-x-0 bg-[hsl(0,0%,50%)]'}`} />
+                </button>
+              </div>
 
-            {/* Mute toggle (visible when active) */}
-            {voiceState !== 'idle' && voiceState !== 'error' && (
+              {/* Mute toggle (visible when active) */}
+              {voiceState !== 'idle' && voiceState !== 'error' && (
+                <button
+                  onClick={toggleMute}
+                  className={`p-2 rounded-sm transition-colors ${isMuted ? 'text-red-400 bg-red-500/10' : 'text-[hsl(0,0%,60%)] hover:text-[hsl(0,0%,95%)]'}`}
+                  title={isMuted ? t('session.unmute') : t('session.mute')}
+                >
+                  {isMuted ? <FiMicOff size={16} /> : <FiMic size={16} />}
+                </button>
+              )}
+
+              {/* Settings */}
               <button
-                onClick={toggleMute}
-                className={`p-2 rounded-sm transition-colors ${isMuted ? 'text-red-400 bg-red-500/10' : 'text-[hsl(0,0%,60%)] hover:text-[hsl(0,0%,95%)]'}`}
-                title={isMuted ? 'Unmute' : 'Mute'}
+                onClick={() => setSettingsOpen(true)}
+                title={t('settings.title')}
+                className="p-2 rounded-sm text-[hsl(0,0%,60%)] hover:text-[hsl(0,0%,95%)] transition-colors"
               >
-                {isMuted ? <FiMicOff size={16} /> : <FiMic size={16} />}
+                <FiSettings size={16} />
               </button>
-            )}
-
-            {/* Settings */}
-            <button
-              onClick={() => setSettingsOpen(true)}
-              className="p-2 rounded-sm text-[hsl(0,0%,60%)] hover:text-[hsl(0,0%,95%)] transition-colors"
-            >
-              <FiSettings size={16} />
-            </button>
-          </div>
-        </header>
-
-        {/* Main Content */}
-        <main className="flex-1 flex flex-col items-center min-h-0">
-          {/* Top section: Mic button area */}
-          <div className="flex flex-col items-center justify-center py-12 md:py-16 flex-shrink-0">
-            {/* Microphone Button */}
-            <MicButton
-              voiceState={voiceState}
-              onStart={startSession}
-              onStop={endSession}
-            />
-
-            {/* Status Label */}
-            <p className={`mt-6 text-xs tracking-[0.2em] uppercase ${voiceState === 'error' ? 'text-red-400' : 'text-[hsl(0,0%,60%)]'}`}>
-              {STATUS_LABELS[voiceState]}
-            </p>
-
-            {/* Error Message */}
-            {error && (
-              <div className="mt-4 px-4 py-2.5 rounded-sm bg-red-500/10 border border-red-500/20 max-w-sm">
-                <p className="text-xs text-red-400 leading-relaxed">{error}</p>
-              </div>
-            )}
-
-            {/* Muted indicator */}
-            {isMuted && voiceState !== 'idle' && voiceState !== 'error' && (
-              <p className="mt-3 text-[10px] tracking-wider uppercase text-red-400/70">Microphone muted</p>
-            )}
-          </div>
-
-          {/* Bottom section: Transcript */}
-          <div className="flex-1 w-full min-h-0 flex flex-col px-4 pb-2 overflow-hidden">
-            <TranscriptPanel
-              transcript={displayTranscript}
-              onClear={clearTranscript}
-              visible={showTranscript}
-            />
-
-            {!showTranscript && (
-              <div className="flex-1 flex items-center justify-center">
-                <p className="text-xs text-[hsl(0,0%,25%)] tracking-wider">Transcript hidden -- enable in settings</p>
-              </div>
-            )}
-          </div>
-        </main>
+            </div>
+          </header>
+
+          {/* Main Content */}
+          <main className="flex-1 flex flex-col items-center min-h-0">
+            {/* Top section: Mic button area */}
+            <div className="flex flex-col items-center justify-center py-12 md:py-16 flex-shrink-0">
+              {/* Microphone Button */}
+              <MicButton
+                voiceState={voiceState}
+                onStart={startSession}
+                onStop={endSession}
+                pushToTalk={pushToTalk}
+                isTalking={isTalking}
+                userSpeaking={isUserSpeaking}
+                onTalkStart={startTalking}
+                onTalkEnd={stopTalking}
+                getInputAnalyser={getInputAnalyser}
+                getOutputAnalyser={getOutputAnalyser}
+              />
+
+              {/* Status Label */}
+              <p className={`mt-6 text-xs tracking-[0.2em] uppercase ${voiceState === 'error' ? 'text-red-400' : 'text-[hsl(0,0%,60%)]'}`}>
+                {t(STATUS_LABELS[voiceState])}
+              </p>
 
-        {/* Footer: Agent Info */}
-        <AgentInfo voiceState={voiceState} />
+              {/* Error Message */}
+              {error && (
+                <div className="mt-4 px-4 py-2.5 rounded-sm bg-red-500/10 border border-red-500/20 max-w-sm">
+                  <p className="text-xs text-red-400 leading-relaxed">{error}</p>
+                </div>
+              )}
+
+              {/* Push-to-talk hint and end control */}
+              {pushToTalk && isSessionActive && (
+                <div className="mt-3 flex flex-col items-center gap-2">
+                  <p className="text-[10px] tracking-wider uppercase text-[hsl(0,0%,40%)]">
+                    {isTalking ? t('session.releaseToSend') : t('session.holdToTalk')}
+                  </p>
+                  <button
+                    onClick={endSession}
+                    className="flex items-center gap-1.5 px-3 py-1 rounded-sm text-[10px] tracking-wider uppercase text-[hsl(0,0%,60%)] border border-[hsl(0,0%,15%)] hover:text-[hsl(0,0%,95%)] transition-colors"
+                  >
+                    <Square size={10} />
+                    {t('session.end')}
+                  </button>
+                </div>
+              )}
+
+              {/* Recording of the session that just ended */}
+              {recording && !isSessionActive && (
+                <RecordingDownload recording={recording} transcript={transcript} onDismiss={clearRecording} t={t} />
+              )}
+
+              {/* Muted indicator */}
+              {isMuted && voiceState !== 'idle' && voiceState !== 'error' && (
+                <p className="mt-3 text-[10px] tracking-wider uppercase text-red-400/70">{t('session.muted')}</p>
+              )}
+            </div>
 
-        {/* Settings Modal */}
-        <SettingsModal
-          open={settingsOpen}
-          onClose={() => setSettingsOpen(false)}
-          showTranscript={showTranscript}
-          setShowTranscript={setShowTranscript}
-        />
-      </div>
+            {/* Bottom section: Transcript */}
+            <div className="flex-1 w-full min-h-0 flex flex-col px-4 pb-2 overflow-hidden">
+              {viewedConversation && showTranscript && (
+                <div className="w-full max-w-lg mx-auto flex items-center justify-between px-3 py-2 mt-2 rounded-sm border border-[hsl(0,0%,15%)] bg-[hsl(0,0%,6%)]">
+                  <p className="text-xs text-[hsl(0,0%,60%)] truncate">
+                    {t('history.viewing')} <span className="text-[hsl(0,0%,85%)]">{viewedConversation.title}</span>
+                  </p>
+                  <button
+                    onClick={() => setSelectedConversationId(null)}
+                    className="ms-3 flex-shrink-0 text-[10px] tracking-wider uppercase text-[hsl(0,0%,60%)] hover:text-[hsl(0,0%,95%)] transition-colors"
+                  >
+                    {t('history.backToLive')}
+                  </button>
+                </div>
+              )}
+
+              <TranscriptPanel
+                transcript={displayTranscript}
+                onClear={handleNewConversation}
+                onExport={handleExport}
+                visible={showTranscript}
+                replayableIds={viewedConversation ? [] : replayableIds}
+                replayingId={replayingId}
+                onReplay={replayTurn}
+                onStopReplay={stopReplay}
+                t={t}
+                dir={uiLanguage.dir}
+              />
+
+              {showTranscript && !viewedConversation && (
+                <TextComposer onSend={textChat.sendMessage} sending={textChat.sending} error={textChat.error} t={t} />
+              )}
+
+              {!showTranscript && (
+                <div className="flex-1 flex items-center justify-center">
+                  <p className="text-xs text-[hsl(0,0%,25%)] tracking-wider">{t('transcript.hidden')}</p>
+                </div>
+              )}
+            </div>
+          </main>
+
+          {/* Footer: Agent Info */}
+          <AgentInfo voiceState={voiceState} agent={agent} t={t} />
+
+          {/* Settings Modal */}
+          <SettingsModal
+            open={settingsOpen}
+            onClose={() => setSettingsOpen(false)}
+            showTranscript={showTranscript}
+            setShowTranscript={setShowTranscript}
+            getPlaybackStats={getPlaybackStats}
+            voiceSettings={voiceSettings}
+            onVoiceSettingsChange={updateVoiceSettings}
+            agentLanguage={agent.language}
+            t={t}
+            dir={uiLanguage.dir}
+          />
+        </div>
+      </SidebarProvider>
     </ErrorBoundary>
   )
 }
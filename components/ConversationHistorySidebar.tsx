@@ -0,0 +1,233 @@
+'use client'
+
+import * as React from 'react'
+import { Check, Pencil, Search, Trash2, X } from 'lucide-react'
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from '@/components/ui/sidebar'
+import { ConversationRecord, matchesConversation } from '@/lib/conversationHistory'
+import type { TextDirection, Translator } from '@/lib/i18n'
+import { cn } from '@/lib/utils'
+
+interface ConversationHistorySidebarProps {
+  conversations: ConversationRecord[]
+  /** Conversation currently being recorded */
+  currentId: string | null
+  /** Conversation shown in the transcript panel */
+  selectedId: string | null
+  error?: string | null
+  onSelect: (id: string) => void
+  onRename: (id: string, title: string) => void
+  onDelete: (id: string) => void
+  t: Translator
+  dir?: TextDirection
+}
+
+// The mobile sidebar renders in a portal outside the page theme, so colours
+// are spelled out rather than taken from the sidebar CSS variables.
+const ITEM_CLASSES =
+  'h-auto py-2 text-[hsl(0,0%,85%)] hover:bg-[hsl(0,0%,12%)] hover:text-[hsl(0,0%,95%)] active:bg-[hsl(0,0%,12%)] data-[active=true]:bg-[hsl(0,0%,15%)] data-[active=true]:text-[hsl(0,0%,95%)]'
+
+function formatStarted(ts: number): string {
+  return new Date(ts).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+}
+
+function formatDuration(ms: number, t: Translator): string {
+  const totalSeconds = Math.round(ms / 1000)
+  const minutes = String(Math.floor(totalSeconds / 60))
+  const seconds = String(totalSeconds % 60)
+  return totalSeconds >= 60
+    ? t('history.durationMinutes', { minutes, seconds })
+    : t('history.durationSeconds', { seconds })
+}
+
+function ConversationItem({
+  conversation,
+  isCurrent,
+  isSelected,
+  onSelect,
+  onRename,
+  onDelete,
+  t,
+}: {
+  conversation: ConversationRecord
+  isCurrent: boolean
+  isSelected: boolean
+  onSelect: () => void
+  onRename: (title: string) => void
+  onDelete: () => void
+  t: Translator
+}) {
+  const [editing, setEditing] = React.useState(false)
+  const [draft, setDraft] = React.useState(conversation.title)
+  const [confirmingDelete, setConfirmingDelete] = React.useState(false)
+
+  const commitRename = () => {
+    setEditing(false)
+    if (draft.trim() && draft.trim() !== conversation.title) onRename(draft.trim())
+  }
+
+  if (editing) {
+    return (
+      <SidebarMenuItem className="px-1 py-1">
+        <SidebarInput
+          autoFocus
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commitRename}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitRename()
+            if (e.key === 'Escape') {
+              setDraft(conversation.title)
+              setEditing(false)
+            }
+          }}
+          className="bg-[hsl(0,0%,8%)] border-[hsl(0,0%,20%)] text-[hsl(0,0%,95%)] text-xs"
+        />
+      </SidebarMenuItem>
+    )
+  }
+
+  const turns = conversation.transcript.length
+
+  return (
+    <SidebarMenuItem className="group/conversation">
+      <SidebarMenuButton isActive={isSelected} onClick={onSelect} className={cn(ITEM_CLASSES, 'pe-14')}>
+        <div className="min-w-0 flex-1">
+          <p className="truncate text-xs font-medium">
+            {conversation.title}
+            {isCurrent && <span className="ms-1.5 text-[10px] uppercase tracking-wider text-green-400">{t('history.live')}</span>}
+          </p>
+          <p className="mt-0.5 truncate text-[10px] tracking-wide text-[hsl(0,0%,45%)]">
+            {formatStarted(conversation.startedAt)} · {formatDuration(conversation.durationMs, t)} · {t('history.turns', { count: String(turns) })}
+          </p>
+        </div>
+      </SidebarMenuButton>
+
+      <div
+        className={cn(
+          'absolute end-1 top-1/2 -translate-y-1/2 flex items-center gap-0.5',
+          confirmingDelete ? 'flex' : 'hidden group-hover/conversation:flex group-focus-within/conversation:flex'
+        )}
+      >
+        {confirmingDelete ? (
+          <>
+            <button
+              onClick={onDelete}
+              title={t('history.confirmDelete')}
+              className="p-1 rounded-sm text-red-400 hover:bg-red-500/10"
+            >
+              <Check className="h-3.5 w-3.5" />
+            </button>
+            <button
+              onClick={() => setConfirmingDelete(false)}
+              title={t('history.cancel')}
+              className="p-1 rounded-sm text-[hsl(0,0%,60%)] hover:text-[hsl(0,0%,95%)]"
+            >
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </>
+        ) : (
+          <>
+            <button
+              onClick={() => {
+                setDraft(conversation.title)
+                setEditing(true)
+              }}
+              title={t('history.rename')}
+              className="p-1 rounded-sm text-[hsl(0,0%,60%)] hover:text-[hsl(0,0%,95%)]"
+            >
+              <Pencil className="h-3.5 w-3.5" />
+            </button>
+            <button
+              onClick={() => setConfirmingDelete(true)}
+              title={t('history.delete')}
+              className="p-1 rounded-sm text-[hsl(0,0%,60%)] hover:text-red-400"
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </button>
+          </>
+        )}
+      </div>
+    </SidebarMenuItem>
+  )
+}
+
+export function ConversationHistorySidebar({
+  conversations,
+  currentId,
+  selectedId,
+  error,
+  onSelect,
+  onRename,
+  onDelete,
+  t,
+  dir,
+}: ConversationHistorySidebarProps) {
+  const [query, setQuery] = React.useState('')
+
+  const filtered = React.useMemo(
+    () => conversations.filter((c) => matchesConversation(c, query)),
+    [conversations, query]
+  )
+
+  return (
+    <Sidebar className="border-[hsl(0,0%,15%)]">
+      <div dir={dir} className="flex h-full flex-col bg-[hsl(0,0%,6%)] text-[hsl(0,0%,85%)]">
+        <SidebarHeader className="border-b border-[hsl(0,0%,15%)] px-3 py-4">
+          <h2 className="text-sm font-semibold tracking-[0.15em] uppercase text-[hsl(0,0%,95%)]">{t('history.title')}</h2>
+          <div className="relative mt-2">
+            <Search className="pointer-events-none absolute start-2 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-[hsl(0,0%,40%)]" />
+            <SidebarInput
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder={t('history.search')}
+              className="ps-7 bg-[hsl(0,0%,8%)] border-[hsl(0,0%,15%)] text-xs text-[hsl(0,0%,95%)] placeholder:text-[hsl(0,0%,40%)]"
+            />
+          </div>
+        </SidebarHeader>
+
+        <SidebarContent>
+          <SidebarGroup>
+            <SidebarGroupLabel className="text-[10px] tracking-wider uppercase text-[hsl(0,0%,40%)]">
+              {query
+                ? t('history.matches', { count: String(filtered.length), total: String(conversations.length) })
+                : t('history.past')}
+            </SidebarGroupLabel>
+            {error && <p className="px-2 pb-2 text-xs text-red-400">{error}</p>}
+            {filtered.length === 0 ? (
+              <p className="px-2 py-6 text-center text-xs text-[hsl(0,0%,30%)]">
+                {conversations.length === 0 ? t('history.empty') : t('history.noMatches')}
+              </p>
+            ) : (
+              <SidebarMenu>
+                {filtered.map((conversation) => (
+                  <ConversationItem
+                    key={conversation.id}
+                    conversation={conversation}
+                    isCurrent={conversation.id === currentId}
+                    isSelected={conversation.id === selectedId}
+                    onSelect={() => onSelect(conversation.id)}
+                    onRename={(title) => onRename(conversation.id, title)}
+                    onDelete={() => onDelete(conversation.id)}
+                    t={t}
+                  />
+                ))}
+              </SidebarMenu>
+            )}
+          </SidebarGroup>
+        </SidebarContent>
+      </div>
+    </Sidebar>
+  )
+}
+
+export default ConversationHistorySidebar
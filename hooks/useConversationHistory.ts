@@ -0,0 +1,189 @@
+/**
+ * useConversationHistory Hook
+ *
+ * Saves the live transcript to IndexedDB as it changes and exposes the saved
+ * conversations for browsing. A conversation starts with the first
+ * transcript entry and ends when the transcript is cleared, so sessions
+ * resumed without clearing keep adding to the same record. Each agent has
+ * its own live conversation, so switching agents never mixes transcripts.
+ *
+ * @example
+ * ```tsx
+ * const { conversations, rename, remove } = useConversationHistory({ agentId, transcript, active, t })
+ * ```
+ */
+
+import { useState, useCallback, useEffect, useRef } from 'react'
+import type { TranscriptEntry } from '@/lib/voiceSession'
+import {
+  ConversationRecord,
+  listConversations,
+  saveConversation,
+  renameConversation,
+  deleteConversation,
+  defaultConversationTitle,
+} from '@/lib/conversationHistory'
+import { generateUUID } from '@/lib/utils'
+import type { Translator } from '@/lib/i18n'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface UseConversationHistoryOptions {
+  agentId: string
+  transcript: TranscriptEntry[]
+  /** Whether a voice session is running; its end is saved as the end time */
+  active: boolean
+  /** Titles conversations with no text to take one from */
+  t: Translator
+}
+
+interface UnsavedTranscript {
+  agentId: string
+  entries: TranscriptEntry[]
+}
+
+interface CurrentConversation {
+  id: string
+  startedAt: number
+  /** Entries before this index belong to a conversation that was deleted */
+  startIndex: number
+  /** Set once the user renames it, so autosave stops deriving the title */
+  title: string | null
+}
+
+const SAVE_DELAY_MS = 500
+
+// =============================================================================
+// useConversationHistory Hook
+// =============================================================================
+
+export const useConversationHistory = ({ agentId, transcript, active, t }: UseConversationHistoryOptions) => {
+  const [conversations, setConversations] = useState<ConversationRecord[]>([])
+  const [currentId, setCurrentId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  // Live conversation per agent
+  const currentsRef = useRef(new Map<string, CurrentConversation>())
+  const transcriptRef = useRef(transcript)
+  transcriptRef.current = transcript
+  const agentIdRef = useRef(agentId)
+  agentIdRef.current = agentId
+  // A language change alone shouldn't trigger a save
+  const tRef = useRef(t)
+  tRef.current = t
+
+  const refresh = useCallback(async () => {
+    try {
+      setConversations(await listConversations())
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Conversation history unavailable')
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const persist = useCallback(async (forAgentId: string, entries: TranscriptEntry[]) => {
+    const current = currentsRef.current.get(forAgentId)
+    // Interim text is still being revised; it is saved once final
+    const finalEntries = current ? entries.slice(current.startIndex).filter(e => e.isFinal) : []
+    if (!current || finalEntries.length === 0) return
+
+    const endedAt = Date.now()
+    try {
+      await saveConversation({
+        id: current.id,
+        title: current.title || defaultConversationTitle(finalEntries, tRef.current('history.untitled')),
+        agentId: forAgentId,
+        startedAt: current.startedAt,
+        endedAt,
+        durationMs: Math.max(0, endedAt - current.startedAt),
+        transcript: finalEntries,
+      })
+      await refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save conversation')
+    }
+  }, [refresh])
+
+  // Start a record with the first entry and save (debounced) as it grows
+  const unsavedRef = useRef<UnsavedTranscript | null>(null)
+  useEffect(() => {
+    const unsaved = unsavedRef.current
+    // Cleared, or switched to another agent: flush the last changes first
+    if (unsaved && (transcript.length === 0 || unsaved.agentId !== agentId)) {
+      persist(unsaved.agentId, unsaved.entries)
+      unsavedRef.current = null
+    }
+
+    if (transcript.length === 0) {
+      currentsRef.current.delete(agentId)
+      setCurrentId(null)
+      return
+    }
+    let current = currentsRef.current.get(agentId)
+    if (!current) {
+      current = { id: generateUUID(), startedAt: transcript[0].timestamp, startIndex: 0, title: null }
+      currentsRef.current.set(agentId, current)
+    }
+    setCurrentId(current.id)
+    unsavedRef.current = { agentId, entries: transcript }
+    const timer = setTimeout(() => {
+      unsavedRef.current = null
+      persist(agentId, transcript)
+    }, SAVE_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [agentId, transcript, persist])
+
+  // Record the end time when the session stops
+  useEffect(() => {
+    if (!active) persist(agentIdRef.current, transcriptRef.current)
+  }, [active, persist])
+
+  const rename = useCallback(async (id: string, title: string) => {
+    const current = Array.from(currentsRef.current.values()).find(c => c.id === id)
+    if (current) current.title = title.trim() || null
+    try {
+      await renameConversation(id, title)
+      await refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to rename conversation')
+    }
+  }, [refresh])
+
+  const remove = useCallback(async (id: string) => {
+    // Deleting the live conversation detaches it; later entries start a new record
+    if (currentsRef.current.get(agentIdRef.current)?.id === id) {
+      const detached = {
+        id: generateUUID(),
+        startedAt: Date.now(),
+        startIndex: transcriptRef.current.length,
+        title: null,
+      }
+      currentsRef.current.set(agentIdRef.current, detached)
+      setCurrentId(detached.id)
+    }
+    try {
+      await deleteConversation(id)
+      await refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete conversation')
+    }
+  }, [refresh])
+
+  return {
+    conversations,
+    currentId,
+    error,
+    rename,
+    remove,
+    refresh,
+  }
+}
+
+export type { ConversationRecord }
+
+export default useConversationHistory
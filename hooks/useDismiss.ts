@@ -0,0 +1,43 @@
+/**
+ * useDismiss Hook
+ *
+ * Closes a popover (menu, dropdown) when the user presses Escape or clicks
+ * or taps anywhere outside the element `ref` points at. Listeners are only
+ * attached while `open` is true.
+ *
+ * @example
+ * ```tsx
+ * const menuRef = useRef<HTMLDivElement>(null)
+ * useDismiss(menuRef, open, () => setOpen(false))
+ * ```
+ */
+
+import { useEffect, useRef, RefObject } from 'react'
+
+// =============================================================================
+// useDismiss Hook
+// =============================================================================
+
+export const useDismiss = (ref: RefObject<HTMLElement>, open: boolean, onDismiss: () => void) => {
+  // Callers usually pass an inline callback; keep the listeners stable
+  const onDismissRef = useRef(onDismiss)
+  onDismissRef.current = onDismiss
+
+  useEffect(() => {
+    if (!open) return
+    const onPointerDown = (e: PointerEvent) => {
+      if (!ref.current?.contains(e.target as Node)) onDismissRef.current()
+    }
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onDismissRef.current()
+    }
+    document.addEventListener('pointerdown', onPointerDown)
+    document.addEventListener('keydown', onKeyDown)
+    return () => {
+      document.removeEventListener('pointerdown', onPointerDown)
+      document.removeEventListener('keydown', onKeyDown)
+    }
+  }, [ref, open])
+}
+
+export default useDismiss
@@ -0,0 +1,35 @@
+/**
+ * useReducedMotion Hook
+ *
+ * Tracks the `prefers-reduced-motion` media query so animated UI can fall
+ * back to something calmer (and cheaper) when the user asks for it.
+ *
+ * @example
+ * ```tsx
+ * const reducedMotion = useReducedMotion()
+ * ```
+ */
+
+import { useState, useEffect } from 'react'
+
+const QUERY = '(prefers-reduced-motion: reduce)'
+
+// =============================================================================
+// useReducedMotion Hook
+// =============================================================================
+
+export const useReducedMotion = () => {
+  const [reducedMotion, setReducedMotion] = useState(false)
+
+  useEffect(() => {
+    const mql = window.matchMedia(QUERY)
+    const onChange = () => setReducedMotion(mql.matches)
+    mql.addEventListener('change', onChange)
+    setReducedMotion(mql.matches)
+    return () => mql.removeEventListener('change', onChange)
+  }, [])
+
+  return reducedMotion
+}
+
+export default useReducedMotion
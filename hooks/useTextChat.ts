@@ -0,0 +1,101 @@
+/**
+ * useTextChat Hook
+ *
+ * Typed fallback for when the microphone is blocked or speaking isn't an
+ * option. During a live voice session messages go over its WebSocket and the
+ * agent answers by voice. Otherwise (or if the server refuses text turns)
+ * they go to the voice agent through useAgent under the voice session's ID,
+ * so both channels share one conversation. Either way both sides of the
+ * exchange land in the session transcript next to spoken turns, and agent
+ * replies can optionally be read aloud with speech synthesis.
+ *
+ * @example
+ * ```tsx
+ * const { sendMessage, sending, error } = useTextChat({ session, agentId, t, speakReplies: true })
+ * ```
+ */
+
+import { useState, useCallback, useEffect, useRef } from 'react'
+import type { VoiceSession } from '@/lib/voiceSession'
+import { useAgent } from '@/hooks/useAgent'
+import { extractText } from '@/lib/aiAgent'
+import { speakText, cancelSpeech } from '@/lib/speech'
+import { generateUUID } from '@/lib/utils'
+import type { Translator } from '@/lib/i18n'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface UseTextChatOptions {
+  session: VoiceSession
+  agentId: string
+  /** Localizes errors raised here rather than by the server */
+  t: Translator
+  /** Read replies aloud with the browser's speech synthesis */
+  speakReplies?: boolean
+  /** Volume for spoken replies, 0..1 */
+  volume?: number
+  /** BCP 47 language tag for spoken replies */
+  language?: string
+}
+
+// =============================================================================
+// useTextChat Hook
+// =============================================================================
+
+export const useTextChat = ({ session, agentId, t, speakReplies = false, volume = 1, language }: UseTextChatOptions) => {
+  const { callAgent } = useAgent({ agentId })
+  const [sending, setSending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // Used until a voice session supplies a server-assigned ID
+  const textSessionIdRef = useRef<string | null>(null)
+
+  useEffect(() => {
+    textSessionIdRef.current = null
+  }, [agentId])
+
+  useEffect(() => cancelSpeech, [])
+
+  const sendMessage = useCallback(async (message: string) => {
+    const text = message.trim()
+    if (!text) return false
+
+    if (!textSessionIdRef.current) textSessionIdRef.current = `${agentId}-${generateUUID().substring(0, 12)}`
+    const sessionId = session.sessionId || textSessionIdRef.current
+
+    setSending(true)
+    setError(null)
+
+    try {
+      if (session.isActive && (await session.sendText(text))) return true
+
+      const entry = session.addTypedEntry('user', text)
+      const result = await callAgent({ message: text, agentId, sessionId })
+      const reply = extractText(result.response)
+      if (!result.success || result.response.status === 'error' || !reply) {
+        // The composer gets the draft back; resending must not show it twice
+        session.removeTypedEntry(entry.id)
+        setError(result.error?.message || result.response.message || t('composer.noReply'))
+        return false
+      }
+
+      session.addTypedEntry('assistant', reply)
+      if (speakReplies) speakText(reply, { volume, lang: language })
+      return true
+    } finally {
+      setSending(false)
+    }
+  }, [session, agentId, t, callAgent, speakReplies, volume, language])
+
+  const clearError = useCallback(() => setError(null), [])
+
+  return {
+    sendMessage,
+    sending,
+    error,
+    clearError,
+  }
+}
+
+export default useTextChat
@@ -0,0 +1,157 @@
+/**
+ * useVoiceSession Hook
+ *
+ * Thin React binding for VoiceSession. Mirrors the session's state,
+ * transcript and error into React state. Changing the agent/endpoint ends
+ * the live session but keeps the instance, so switching back to an agent
+ * restores its transcript.
+ *
+ * @example
+ * ```tsx
+ * const { voiceState, transcript, startSession, endSession } = useVoiceSession({
+ *   agentId: 'xxx',
+ *   sessionStartUrl: '/api/voice/session',
+ * })
+ * ```
+ */
+
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react'
+import {
+  VoiceSession,
+  VoiceSessionOptions,
+  VoiceState,
+  InputMode,
+  TranscriptEntry,
+} from '@/lib/voiceSession'
+import { VadSensitivity } from '@/lib/vad'
+import { SessionRecording, RecordingLayout } from '@/lib/sessionRecorder'
+
+// =============================================================================
+// useVoiceSession Hook
+// =============================================================================
+
+export const useVoiceSession = (options: VoiceSessionOptions) => {
+  const { agentId, sessionStartUrl } = options
+
+  // Audio options are read when a session starts, so only the identity of the
+  // agent/endpoint warrants a new instance. Each one owns its transcript.
+  const sessionsRef = useRef(new Map<string, VoiceSession>())
+  const optionsRef = useRef(options)
+  optionsRef.current = options
+  const session = useMemo(() => {
+    const key = `${agentId}|${sessionStartUrl}`
+    let instance = sessionsRef.current.get(key)
+    if (!instance) {
+      instance = new VoiceSession(optionsRef.current)
+      sessionsRef.current.set(key, instance)
+    }
+    return instance
+  }, [agentId, sessionStartUrl])
+
+  const [voiceState, setVoiceState] = useState<VoiceState>(session.state)
+  // Tagged with its session: right after a switch the previous agent's
+  // transcript is still in state and must not be shown (or saved) as this one's
+  const [transcriptState, setTranscriptState] = useState({ session, entries: session.transcript })
+  const transcript = transcriptState.session === session ? transcriptState.entries : session.transcript
+  const [error, setError] = useState<string | null>(session.error)
+  const [isMuted, setIsMuted] = useState(session.isMuted)
+  const [isTalking, setIsTalking] = useState(session.isTalking)
+  const [isUserSpeaking, setIsUserSpeaking] = useState(session.isUserSpeaking)
+  const [recording, setRecording] = useState<SessionRecording | null>(null)
+  const [replayableIds, setReplayableIds] = useState<string[]>(session.replayableIds)
+  const [replayingId, setReplayingId] = useState<string | null>(session.replayingId)
+
+  useEffect(() => {
+    setVoiceState(session.state)
+    setTranscriptState({ session, entries: session.transcript })
+    setError(session.error)
+    setIsMuted(session.isMuted)
+    setIsTalking(session.isTalking)
+    setIsUserSpeaking(session.isUserSpeaking)
+    setRecording(null)
+    setReplayableIds(session.replayableIds)
+    setReplayingId(session.replayingId)
+
+    const unsubscribers = [
+      session.on('state', setVoiceState),
+      session.on('transcript', entries => setTranscriptState({ session, entries })),
+      session.on('error', setError),
+      session.on('talking', setIsTalking),
+      session.on('userSpeaking', setIsUserSpeaking),
+      session.on('recording', setRecording),
+      session.on('replayable', setReplayableIds),
+      session.on('replaying', setReplayingId),
+    ]
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe())
+      session.end()
+    }
+  }, [session])
+
+  const startSession = useCallback(() => {
+    setRecording(null)
+    return session.start()
+  }, [session])
+  const endSession = useCallback(() => session.end(), [session])
+  const clearTranscript = useCallback(() => session.clearTranscript(), [session])
+  const getPlaybackStats = useCallback(() => session.getPlaybackStats(), [session])
+  const setInputDevice = useCallback((deviceId: string | null) => session.setInputDevice(deviceId), [session])
+  const setOutputDevice = useCallback((deviceId: string | null) => session.setOutputDevice(deviceId), [session])
+  const getInputAnalyser = useCallback(() => session.inputAnalyser, [session])
+  const getOutputAnalyser = useCallback(() => session.outputAnalyser, [session])
+  const setVolume = useCallback((volume: number) => session.setVolume(volume), [session])
+  const setDucking = useCallback((enabled: boolean) => session.setDucking(enabled), [session])
+  const setInputMode = useCallback((mode: InputMode) => session.setInputMode(mode), [session])
+  const startTalking = useCallback(() => session.startTalking(), [session])
+  const stopTalking = useCallback(() => session.stopTalking(), [session])
+  const setVadGating = useCallback((enabled: boolean) => session.setVadGating(enabled), [session])
+  const setRecordingLayout = useCallback((layout: RecordingLayout | null) => session.setRecording(layout), [session])
+  const clearRecording = useCallback(() => setRecording(null), [])
+  const setVadSensitivity = useCallback((sensitivity: VadSensitivity) => session.setVadSensitivity(sensitivity), [session])
+  const replayTurn = useCallback((entryId?: string) => session.replayTurn(entryId), [session])
+  const stopReplay = useCallback(() => session.stopReplay(), [session])
+  const setLanguage = useCallback((language: string | null) => session.setLanguage(language), [session])
+
+  const toggleMute = useCallback(() => {
+    session.setMuted(!session.isMuted)
+    setIsMuted(session.isMuted)
+  }, [session])
+
+  return {
+    session,
+    voiceState,
+    transcript,
+    error,
+    isMuted,
+    isTalking,
+    isUserSpeaking,
+    recording,
+    replayableIds,
+    replayingId,
+    startSession,
+    endSession,
+    clearTranscript,
+    toggleMute,
+    getPlaybackStats,
+    getInputAnalyser,
+    getOutputAnalyser,
+    setInputDevice,
+    setOutputDevice,
+    setVolume,
+    setDucking,
+    setInputMode,
+    startTalking,
+    stopTalking,
+    setVadGating,
+    setVadSensitivity,
+    setRecordingLayout,
+    clearRecording,
+    replayTurn,
+    stopReplay,
+    setLanguage,
+  }
+}
+
+export type { VoiceState, InputMode, TranscriptEntry }
+
+export default useVoiceSession
@@ -0,0 +1,46 @@
+/**
+ * useVoiceSettings Hook
+ *
+ * Loads persisted voice preferences after mount (localStorage is not
+ * available during server rendering) and saves every update.
+ *
+ * @example
+ * ```tsx
+ * const { settings, updateSettings } = useVoiceSettings()
+ * updateSettings({ inputDeviceId: 'abc' })
+ * ```
+ */
+
+import { useState, useCallback, useEffect } from 'react'
+import {
+  VoiceSettings,
+  DEFAULT_VOICE_SETTINGS,
+  loadVoiceSettings,
+  saveVoiceSettings,
+} from '@/lib/voiceSettings'
+
+// =============================================================================
+// useVoiceSettings Hook
+// =============================================================================
+
+export const useVoiceSettings = () => {
+  const [settings, setSettings] = useState<VoiceSettings>(DEFAULT_VOICE_SETTINGS)
+
+  useEffect(() => {
+    setSettings(loadVoiceSettings())
+  }, [])
+
+  const updateSettings = useCallback((patch: Partial<VoiceSettings>) => {
+    setSettings(prev => {
+      const next = { ...prev, ...patch }
+      saveVoiceSettings(next)
+      return next
+    })
+  }, [])
+
+  return { settings, updateSettings }
+}
+
+export type { VoiceSettings }
+
+export default useVoiceSettings
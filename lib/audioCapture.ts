@@ -0,0 +1,319 @@
+'use client'
+
+/**
+ * Audio Capture Utility
+ *
+ * AudioWorklet-based microphone capture. Resampling, Float32 → PCM16
+ * conversion, framing, level analysis and base64 encoding all run on the audio rendering
+ * thread, so main-thread work (React re-renders, transcript updates) can no
+ * longer starve capture the way the deprecated ScriptProcessorNode did.
+ *
+ * @example
+ * ```ts
+ * import { createAudioCapture } from '@/lib/audioCapture'
+ *
+ * const capture = await createAudioCapture(audioContext, stream, {
+ *   frameDurationMs: 40,
+ *   targetSampleRate: 24000,
+ *   onFrame: (frame) => {
+ *     if (frame.encoding === 'base64') {
+ *       ws.send(JSON.stringify({ type: 'audio', audio: frame.audio, sampleRate: frame.sampleRate }))
+ *     }
+ *   },
+ * })
+ *
+ * // pass `encoding: 'pcm16'` to receive raw ArrayBuffer frames instead
+ *
+ * // later
+ * capture.stop()
+ * ```
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Frame durations known to work well with the voice backend. */
+export const CAPTURE_FRAME_DURATIONS = [20, 40, 100] as const
+
+export type CaptureFrameDuration = (typeof CAPTURE_FRAME_DURATIONS)[number]
+
+/**
+ * `base64` frames are ready for the JSON protocol; `pcm16` frames carry the
+ * raw little-endian samples for binary WebSocket framing.
+ */
+export type CaptureEncoding = 'base64' | 'pcm16'
+
+export type CaptureFrame = (
+  | { encoding: 'base64'; audio: string }
+  | { encoding: 'pcm16'; pcm: ArrayBuffer }
+) & {
+  sampleRate: number
+  /** Root-mean-square level of the frame, 0..1 */
+  rms: number
+  /** Zero-crossing rate: sign changes per sample, 0..1 */
+  zcr: number
+}
+
+export interface AudioCaptureOptions {
+  /** Length of each emitted frame in milliseconds (default 40) */
+  frameDurationMs?: CaptureFrameDuration
+  /** Rate frames are converted to before encoding (default: the context's rate) */
+  targetSampleRate?: number
+  /** Frame payload encoding (default 'base64') */
+  encoding?: CaptureEncoding
+  onFrame: (frame: CaptureFrame) => void
+}
+
+export interface AudioCapture {
+  /** Number of samples per emitted frame */
+  frameSize: number
+  stop: () => void
+}
+
+const PROCESSOR_NAME = 'pcm-capture-processor'
+const DEFAULT_FRAME_DURATION_MS: CaptureFrameDuration = 40
+
+// ---------------------------------------------------------------------------
+// Worklet source
+// ---------------------------------------------------------------------------
+
+/**
+ * Plain-JS mirror of StreamResampler in lib/resampler.ts, including its
+ * anti-alias filter. Kept as a separate source string so the worklet loads
+ * from a Blob URL without a build step; exported so the resampler tests can
+ * check that both produce the same samples.
+ * @internal
+ */
+export const WORKLET_RESAMPLER_SOURCE = `
+const ANTI_ALIAS_CUTOFF = 0.9
+const ANTI_ALIAS_TAPS_PER_RATIO = 8
+
+function designLowPass(cutoff, length) {
+  const taps = new Float32Array(length)
+  const middle = (length - 1) / 2
+  let sum = 0
+  for (let n = 0; n < length; n++) {
+    const x = n - middle
+    const sinc = x === 0 ? 2 * cutoff : Math.sin(2 * Math.PI * cutoff * x) / (Math.PI * x)
+    const window = 0.42 - 0.5 * Math.cos((2 * Math.PI * n) / (length - 1)) + 0.08 * Math.cos((4 * Math.PI * n) / (length - 1))
+    taps[n] = sinc * window
+    sum += taps[n]
+  }
+  for (let n = 0; n < length; n++) taps[n] /= sum
+  return taps
+}
+
+class LinearResampler {
+  constructor(fromRate, toRate) {
+    this.step = fromRate / toRate
+    this.position = 1
+    this.lastSample = 0
+    this.taps = toRate < fromRate
+      ? designLowPass((ANTI_ALIAS_CUTOFF * toRate) / (2 * fromRate), 2 * Math.ceil(ANTI_ALIAS_TAPS_PER_RATIO * this.step) + 1)
+      : null
+    this.history = this.taps ? new Float32Array(this.taps.length * 2) : null
+    this.index = 0
+  }
+
+  filter(input) {
+    const taps = this.taps
+    const length = taps.length
+    const output = new Float32Array(input.length)
+    for (let i = 0; i < input.length; i++) {
+      this.history[this.index] = input[i]
+      this.history[this.index + length] = input[i]
+      let acc = 0
+      for (let k = 0; k < length; k++) acc += taps[k] * this.history[this.index + length - k]
+      output[i] = acc
+      this.index = (this.index + 1) % length
+    }
+    return output
+  }
+
+  // Calls emit(sample) for each output sample
+  process(input, emit) {
+    const end = input.length
+    if (end === 0) return
+    if (this.taps) input = this.filter(input)
+    let pos = this.position
+    while (pos <= end) {
+      const i = Math.floor(pos)
+      const frac = pos - i
+      const a = i === 0 ? this.lastSample : input[i - 1]
+      const b = i < end ? input[i] : a
+      emit(a + (b - a) * frac)
+      pos += this.step
+    }
+    this.position = pos - end
+    this.lastSample = input[end - 1]
+  }
+}
+`
+
+// Runs inside AudioWorkletGlobalScope, which has no btoa — hence the table
+// based encoder. Kept as plain JS so it can be loaded from a Blob URL without
+// a separate build step.
+const WORKLET_SOURCE = `${WORKLET_RESAMPLER_SOURCE}
+const B64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+
+function encodeBase64(bytes) {
+  let out = ''
+  let i = 0
+  for (; i + 2 < bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | (bytes[i + 1] << 8) | bytes[i + 2]
+    out += B64[(n >> 18) & 63] + B64[(n >> 12) & 63] + B64[(n >> 6) & 63] + B64[n & 63]
+  }
+  const rest = bytes.length - i
+  if (rest === 1) {
+    const n = bytes[i] << 16
+    out += B64[(n >> 18) & 63] + B64[(n >> 12) & 63] + '=='
+  } else if (rest === 2) {
+    const n = (bytes[i] << 16) | (bytes[i + 1] << 8)
+    out += B64[(n >> 18) & 63] + B64[(n >> 12) & 63] + B64[(n >> 6) & 63] + '='
+  }
+  return out
+}
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super()
+    const opts = options.processorOptions || {}
+    const durationMs = opts.frameDurationMs || 40
+    this.outputRate = opts.targetSampleRate || sampleRate
+    this.encoding = opts.encoding || 'base64'
+    this.resampler = this.outputRate !== sampleRate ? new LinearResampler(sampleRate, this.outputRate) : null
+    this.frameSize = Math.max(1, Math.round(this.outputRate * durationMs / 1000))
+    this.frame = new Int16Array(this.frameSize)
+    this.offset = 0
+    this.sumSquares = 0
+    this.crossings = 0
+    this.lastSign = 0
+    this.active = true
+    this.push = (sample) => {
+      const s = Math.max(-1, Math.min(1, sample))
+      this.frame[this.offset++] = s < 0 ? s * 0x8000 : s * 0x7FFF
+      this.sumSquares += s * s
+      const sign = s > 0 ? 1 : s < 0 ? -1 : 0
+      if (sign !== 0) {
+        if (this.lastSign !== 0 && sign !== this.lastSign) this.crossings++
+        this.lastSign = sign
+      }
+      if (this.offset === this.frameSize) {
+        const rms = Math.sqrt(this.sumSquares / this.frameSize)
+        const zcr = this.crossings / this.frameSize
+        if (this.encoding === 'pcm16') {
+          const pcm = this.frame.buffer
+          this.port.postMessage({ type: 'frame', pcm: pcm, sampleRate: this.outputRate, rms: rms, zcr: zcr }, [pcm])
+          this.frame = new Int16Array(this.frameSize)
+        } else {
+          this.port.postMessage({
+            type: 'frame',
+            audio: encodeBase64(new Uint8Array(this.frame.buffer)),
+            sampleRate: this.outputRate,
+            rms: rms,
+            zcr: zcr,
+          })
+        }
+        this.offset = 0
+        this.sumSquares = 0
+        this.crossings = 0
+      }
+    }
+    this.port.onmessage = (e) => {
+      if (e.data && e.data.type === 'stop') this.active = false
+    }
+  }
+
+  process(inputs) {
+    if (!this.active) return false
+    const channel = inputs[0] && inputs[0][0]
+    if (!channel) return true
+
+    if (this.resampler) {
+      this.resampler.process(channel, this.push)
+    } else {
+      for (let i = 0; i < channel.length; i++) this.push(channel[i])
+    }
+    return true
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor)
+`
+
+let workletUrl: string | null = null
+const loadedContexts = new WeakSet<BaseAudioContext>()
+
+async function ensureWorkletLoaded(ctx: BaseAudioContext): Promise<void> {
+  if (loadedContexts.has(ctx)) return
+  if (!ctx.audioWorklet) {
+    throw new Error('AudioWorklet is not supported in this browser')
+  }
+  if (!workletUrl) {
+    workletUrl = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }))
+  }
+  await ctx.audioWorklet.addModule(workletUrl)
+  loadedContexts.add(ctx)
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Start capturing `stream` through an AudioWorklet on `ctx`.
+ * Frames are emitted at `targetSampleRate`, or the context's rate if unset.
+ */
+export async function createAudioCapture(
+  ctx: AudioContext,
+  stream: MediaStream,
+  options: AudioCaptureOptions
+): Promise<AudioCapture> {
+  await ensureWorkletLoaded(ctx)
+
+  const frameDurationMs = options.frameDurationMs || DEFAULT_FRAME_DURATION_MS
+  const outputRate = options.targetSampleRate || ctx.sampleRate
+  const node = new AudioWorkletNode(ctx, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: { frameDurationMs, targetSampleRate: outputRate, encoding: options.encoding || 'base64' },
+  })
+
+  const source = ctx.createMediaStreamSource(stream)
+
+  // The worklet has to be pulled by the graph to run, but we never want to
+  // hear the mic locally.
+  const silentGain = ctx.createGain()
+  silentGain.gain.value = 0
+  silentGain.connect(ctx.destination)
+
+  source.connect(node)
+  node.connect(silentGain)
+
+  let stopped = false
+  node.port.onmessage = (e: MessageEvent) => {
+    if (stopped || e.data?.type !== 'frame') return
+    const { sampleRate, rms, zcr } = e.data
+    if (e.data.pcm) {
+      options.onFrame({ encoding: 'pcm16', pcm: e.data.pcm, sampleRate, rms, zcr })
+    } else {
+      options.onFrame({ encoding: 'base64', audio: e.data.audio, sampleRate, rms, zcr })
+    }
+  }
+
+  return {
+    frameSize: Math.max(1, Math.round(outputRate * frameDurationMs / 1000)),
+    stop: () => {
+      if (stopped) return
+      stopped = true
+      node.port.postMessage({ type: 'stop' })
+      node.port.onmessage = null
+      source.disconnect()
+      node.disconnect()
+      silentGain.disconnect()
+    },
+  }
+}
@@ -0,0 +1,65 @@
+'use client'
+
+/**
+ * Audio Devices Utility
+ *
+ * Thin wrappers around `navigator.mediaDevices` for listing microphones and
+ * speakers and reacting to hot-plugged hardware.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface AudioDevice {
+  deviceId: string
+  label: string
+  kind: 'audioinput' | 'audiooutput'
+}
+
+export interface AudioDeviceList {
+  inputs: AudioDevice[]
+  outputs: AudioDevice[]
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * List audio inputs and outputs. Labels are empty until the page has been
+ * granted microphone access; `fallbackLabel` names those devices instead,
+ * numbered from 1 per kind.
+ */
+export async function listAudioDevices(
+  fallbackLabel?: (kind: AudioDevice['kind'], number: number) => string
+): Promise<AudioDeviceList> {
+  if (typeof navigator === 'undefined' || !navigator.mediaDevices?.enumerateDevices) {
+    return { inputs: [], outputs: [] }
+  }
+
+  const devices = await navigator.mediaDevices.enumerateDevices()
+  const toAudioDevice = (kind: AudioDevice['kind']) =>
+    devices
+      .filter(d => d.kind === kind && d.deviceId && d.deviceId !== 'default' && d.deviceId !== 'communications')
+      .map((d, i): AudioDevice => ({ deviceId: d.deviceId, label: d.label || fallbackLabel?.(kind, i + 1) || '', kind }))
+
+  return {
+    inputs: toAudioDevice('audioinput'),
+    outputs: toAudioDevice('audiooutput'),
+  }
+}
+
+/** Subscribe to hardware changes; returns an unsubscribe function. */
+export function onAudioDevicesChange(listener: () => void): () => void {
+  if (typeof navigator === 'undefined' || !navigator.mediaDevices?.addEventListener) {
+    return () => {}
+  }
+  navigator.mediaDevices.addEventListener('devicechange', listener)
+  return () => navigator.mediaDevices.removeEventListener('devicechange', listener)
+}
+
+/** Whether assistant audio can be routed to a chosen output device. */
+export function supportsOutputSelection(): boolean {
+  return typeof AudioContext !== 'undefined' && 'setSinkId' in AudioContext.prototype
+}
@@ -0,0 +1,101 @@
+'use client'
+
+/**
+ * Audio Levels Utility
+ *
+ * AnalyserNode helpers for the live visualisers: overall input level from the
+ * time-domain signal and a handful of spectrum bands for assistant output.
+ * Readers reuse their sample buffers so they can run every animation frame
+ * without allocating.
+ *
+ * @example
+ * ```ts
+ * import { createLevelAnalyser, LevelReader } from '@/lib/audioLevels'
+ *
+ * const analyser = createLevelAnalyser(ctx)
+ * source.connect(analyser)
+ * const reader = new LevelReader(analyser)
+ * requestAnimationFrame(() => draw(reader.level(), reader.bands(7)))
+ * ```
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface LevelAnalyserOptions {
+  /** FFT size; also the time-domain window (default 512) */
+  fftSize?: number
+  /** 0..1, higher values give a calmer spectrum (default 0.7) */
+  smoothingTimeConstant?: number
+}
+
+const DEFAULT_FFT_SIZE = 512
+const DEFAULT_SMOOTHING = 0.7
+// Speech energy sits well below this; scales RMS into a usable 0..1 range
+const LEVEL_GAIN = 6
+// Bands cover the range that carries speech
+const MIN_BAND_HZ = 80
+const MAX_BAND_HZ = 8000
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+export function createLevelAnalyser(ctx: BaseAudioContext, options: LevelAnalyserOptions = {}): AnalyserNode {
+  const analyser = ctx.createAnalyser()
+  analyser.fftSize = options.fftSize ?? DEFAULT_FFT_SIZE
+  analyser.smoothingTimeConstant = options.smoothingTimeConstant ?? DEFAULT_SMOOTHING
+  analyser.minDecibels = -90
+  analyser.maxDecibels = -20
+  return analyser
+}
+
+export class LevelReader {
+  private readonly analyser: AnalyserNode
+  private readonly timeData: Float32Array<ArrayBuffer>
+  private readonly freqData: Uint8Array<ArrayBuffer>
+
+  constructor(analyser: AnalyserNode) {
+    this.analyser = analyser
+    this.timeData = new Float32Array(analyser.fftSize)
+    this.freqData = new Uint8Array(analyser.frequencyBinCount)
+  }
+
+  get source(): AnalyserNode {
+    return this.analyser
+  }
+
+  /** Perceived level of the current window, 0..1 */
+  level(): number {
+    const data = this.timeData
+    this.analyser.getFloatTimeDomainData(data)
+    let sum = 0
+    for (let i = 0; i < data.length; i++) sum += data[i] * data[i]
+    const rms = Math.sqrt(sum / data.length)
+    return Math.min(1, rms * LEVEL_GAIN)
+  }
+
+  /** `count` log-spaced band magnitudes between 80 Hz and 8 kHz, each 0..1 */
+  bands(count: number): number[] {
+    const data = this.freqData
+    this.analyser.getByteFrequencyData(data)
+
+    const nyquist = this.analyser.context.sampleRate / 2
+    const maxHz = Math.min(MAX_BAND_HZ, nyquist)
+    const binHz = nyquist / data.length
+    const ratio = maxHz / MIN_BAND_HZ
+    const out: number[] = []
+
+    for (let b = 0; b < count; b++) {
+      const lo = MIN_BAND_HZ * Math.pow(ratio, b / count)
+      const hi = MIN_BAND_HZ * Math.pow(ratio, (b + 1) / count)
+      const start = Math.floor(lo / binHz)
+      const end = Math.max(start + 1, Math.ceil(hi / binHz))
+      let peak = 0
+      for (let i = start; i < end && i < data.length; i++) peak = Math.max(peak, data[i])
+      out.push(peak / 255)
+    }
+    return out
+  }
+}
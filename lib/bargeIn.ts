@@ -0,0 +1,52 @@
+/**
+ * Barge-in Detector Utility
+ *
+ * Decides when the user has started talking over the assistant. Fed with the
+ * per-frame RMS level from the capture worklet while assistant audio is
+ * playing; fires once the level stays above a threshold for long enough that
+ * a cough, keyboard click or residual echo does not cut the assistant off.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface BargeInOptions {
+  /** RMS level (0..1) treated as speech. Echo-cancelled mics sit well below 0.02. */
+  threshold?: number
+  /** Continuous speech required before interrupting */
+  minSpeechMs?: number
+}
+
+const DEFAULT_THRESHOLD = 0.04
+const DEFAULT_MIN_SPEECH_MS = 200
+
+// ---------------------------------------------------------------------------
+// Detector
+// ---------------------------------------------------------------------------
+
+export class BargeInDetector {
+  private readonly threshold: number
+  private readonly minSpeechMs: number
+  private speechMs = 0
+
+  constructor(options: BargeInOptions = {}) {
+    this.threshold = options.threshold ?? DEFAULT_THRESHOLD
+    this.minSpeechMs = options.minSpeechMs ?? DEFAULT_MIN_SPEECH_MS
+  }
+
+  /** Feed one frame; returns true on the frame that crosses `minSpeechMs`. */
+  update(rms: number, frameMs: number): boolean {
+    if (rms < this.threshold) {
+      this.speechMs = 0
+      return false
+    }
+    const before = this.speechMs
+    this.speechMs += frameMs
+    return before < this.minSpeechMs && this.speechMs >= this.minSpeechMs
+  }
+
+  reset(): void {
+    this.speechMs = 0
+  }
+}
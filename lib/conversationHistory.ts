@@ -0,0 +1,125 @@
+'use client'
+
+/**
+ * Conversation History Utility
+ *
+ * Stores finished and in-progress voice conversations in IndexedDB so they
+ * survive reloads and "New Conversation". Each record is the full transcript
+ * plus when it started and ended and which agent it was with.
+ *
+ * @example
+ * ```ts
+ * import { saveConversation, listConversations } from '@/lib/conversationHistory'
+ *
+ * await saveConversation({ id, title, agentId, startedAt, endedAt, durationMs, transcript })
+ * const records = await listConversations()
+ * ```
+ */
+
+import type { TranscriptEntry } from '@/lib/voiceSession'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ConversationRecord {
+  id: string
+  title: string
+  agentId: string
+  startedAt: number
+  endedAt: number
+  durationMs: number
+  transcript: TranscriptEntry[]
+}
+
+const DB_NAME = 'voiceflow'
+const DB_VERSION = 1
+const STORE = 'conversations'
+const TITLE_LENGTH = 48
+
+// ---------------------------------------------------------------------------
+// Database
+// ---------------------------------------------------------------------------
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available'))
+  }
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' })
+        store.createIndex('startedAt', 'startedAt')
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error || new Error('Failed to open conversation history'))
+      }
+    })
+  }
+  return dbPromise
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE))
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error || new Error('Conversation history request failed'))
+  })
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** All conversations, newest first. */
+export async function listConversations(): Promise<ConversationRecord[]> {
+  const records = await withStore<ConversationRecord[]>('readonly', store => store.getAll())
+  return records.sort((a, b) => b.startedAt - a.startedAt)
+}
+
+export function getConversation(id: string): Promise<ConversationRecord | undefined> {
+  return withStore<ConversationRecord | undefined>('readonly', store => store.get(id))
+}
+
+export async function saveConversation(record: ConversationRecord): Promise<void> {
+  await withStore('readwrite', store => store.put(record))
+}
+
+export async function renameConversation(id: string, title: string): Promise<void> {
+  const record = await getConversation(id)
+  if (!record) return
+  await saveConversation({ ...record, title: title.trim() || record.title })
+}
+
+export async function deleteConversation(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id))
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Default title: the opening of the first thing the user said. */
+export function defaultConversationTitle(transcript: TranscriptEntry[], untitled: string): string {
+  const first = transcript.find(e => e.role === 'user') || transcript[0]
+  if (!first) return untitled
+  const text = first.text.trim()
+  return text.length > TITLE_LENGTH ? `${text.slice(0, TITLE_LENGTH - 1)}…` : text
+}
+
+/** Case-insensitive match on the title and transcript text. */
+export function matchesConversation(record: ConversationRecord, query: string): boolean {
+  const q = query.trim().toLowerCase()
+  if (!q) return true
+  if (record.title.toLowerCase().includes(q)) return true
+  return record.transcript.some(e => e.text.toLowerCase().includes(q))
+}
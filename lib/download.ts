@@ -0,0 +1,23 @@
+/**
+ * Safe file download utility
+ *
+ * Saves a Blob through a temporary object URL and anchor element, which also
+ * works inside sandboxed iframes that allow downloads.
+ */
+
+/**
+ * Trigger a browser download of `blob`
+ * @param blob - File contents
+ * @param filename - Suggested file name
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  // Revoke after the click has been handled
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest'
+import { createTranslator, resolveLanguage } from '@/lib/i18n'
+
+describe('createTranslator', () => {
+  it('fills params and falls back to English for unknown languages', () => {
+    expect(createTranslator('fr')('agent.voice', { voice: 'Nova' })).toBe('Voix : Nova')
+    expect(createTranslator('Klingon')('history.untitled')).toBe('Untitled conversation')
+  })
+
+  it('picks the plural form for the count by the language rules', () => {
+    const en = createTranslator('en')
+    expect(['0', '1', '2'].map(count => en('history.turns', { count }))).toEqual(['0 turns', '1 turn', '2 turns'])
+    // French treats zero as singular
+    expect(createTranslator('fr')('history.turns', { count: '0' })).toBe('0 échange')
+
+    const ar = createTranslator('ar')
+    expect(['1', '2', '3', '11', '100'].map(count => ar('history.turns', { count }))).toEqual([
+      'دور واحد', 'دوران', '3 أدوار', '11 دورًا', '100 دور',
+    ])
+  })
+
+  it('uses the other form when a language has no form for the category', () => {
+    // Spanish uses "many" for round millions
+    expect(createTranslator('es')('history.turns', { count: '1000000' })).toBe('1000000 turnos')
+    expect(createTranslator('ja')('history.turns', { count: '1' })).toBe('1 ターン')
+  })
+})
+
+describe('resolveLanguage', () => {
+  it('matches tags and English names', () => {
+    expect(resolveLanguage('pt-BR')?.code).toBe('pt')
+    expect(resolveLanguage('Hebrew')?.dir).toBe('rtl')
+    expect(resolveLanguage('xx')).toBeNull()
+  })
+})
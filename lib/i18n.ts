@@ -0,0 +1,1291 @@
+/**
+ * Internationalization Utility
+ *
+ * The languages the voice client offers, their text direction, and the UI
+ * strings for each of them. Every language carries a full set of messages;
+ * the `Messages` type makes a missing key a type error, so new strings are
+ * added to every locale at once. Messages that depend on a `count` param
+ * list their forms by `Intl.PluralRules` category, with `other` as fallback.
+ *
+ * @example
+ * ```ts
+ * import { createTranslator, resolveLanguage } from '@/lib/i18n'
+ *
+ * const language = resolveLanguage('Arabic')   // { code: 'ar', dir: 'rtl', ... }
+ * const t = createTranslator(language?.code)
+ * t('settings.languageDefault', { language: 'English' })
+ * t('history.turns', { count: '3' })   // '3 turns'
+ * ```
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type TextDirection = 'ltr' | 'rtl'
+
+export interface Language {
+  /** BCP 47 primary language subtag */
+  code: string
+  /** English name, as used in agent voice config */
+  name: string
+  /** Name in the language itself, for pickers */
+  nativeName: string
+  dir: TextDirection
+}
+
+export const LANGUAGES: Language[] = [
+  { code: 'en', name: 'English', nativeName: 'English', dir: 'ltr' },
+  { code: 'es', name: 'Spanish', nativeName: 'Español', dir: 'ltr' },
+  { code: 'fr', name: 'French', nativeName: 'Français', dir: 'ltr' },
+  { code: 'de', name: 'German', nativeName: 'Deutsch', dir: 'ltr' },
+  { code: 'it', name: 'Italian', nativeName: 'Italiano', dir: 'ltr' },
+  { code: 'pt', name: 'Portuguese', nativeName: 'Português', dir: 'ltr' },
+  { code: 'ar', name: 'Arabic', nativeName: 'العربية', dir: 'rtl' },
+  { code: 'he', name: 'Hebrew', nativeName: 'עברית', dir: 'rtl' },
+  { code: 'hi', name: 'Hindi', nativeName: 'हिन्दी', dir: 'ltr' },
+  { code: 'ja', name: 'Japanese', nativeName: '日本語', dir: 'ltr' },
+  { code: 'zh', name: 'Chinese', nativeName: '中文', dir: 'ltr' },
+]
+
+export const DEFAULT_LANGUAGE = LANGUAGES[0]
+
+// ---------------------------------------------------------------------------
+// Messages
+// ---------------------------------------------------------------------------
+
+const EN = {
+  'status.idle': 'Tap to start',
+  'status.connecting': 'Connecting...',
+  'status.reconnecting': 'Reconnecting...',
+  'status.listening': 'Listening...',
+  'status.thinking': 'Thinking...',
+  'status.speaking': 'Speaking...',
+  'status.error': 'Error occurred',
+  'transcript.title': 'Transcript',
+  'transcript.empty': 'Your conversation will appear here',
+  'transcript.newConversation': 'New Conversation',
+  'transcript.export': 'Export',
+  'transcript.interrupted': 'Interrupted',
+  'transcript.typed': 'Typed',
+  'transcript.replay': 'Replay (press R for the latest)',
+  'transcript.stopReplay': 'Stop replay',
+  'transcript.hidden': 'Transcript hidden -- enable in settings',
+  'export.markdown': 'Markdown',
+  'export.json': 'JSON',
+  'export.txt': 'Plain text',
+  'export.srt': 'SubRip (SRT)',
+  'export.vtt': 'WebVTT',
+  'composer.placeholder': 'Type a message',
+  'composer.waiting': 'Waiting for a reply...',
+  'composer.send': 'Send',
+  'composer.label': 'Message',
+  'composer.noReply': 'The agent did not reply',
+  'session.releaseToSend': 'Release to send',
+  'session.holdToTalk': 'Hold space or the button to talk',
+  'session.end': 'End session',
+  'session.muted': 'Microphone muted',
+  'session.mute': 'Mute',
+  'session.unmute': 'Unmute',
+  'header.sampleData': 'Sample Data',
+  'agent.choose': 'Choose a voice agent',
+  'agent.switchEndsSession': 'Switching agents ends the current session',
+  'agent.voice': 'Voice: {voice}',
+  'agent.none': 'No voice agents are configured',
+  'agent.noneHint': 'Add a voice agent to workflow_state.json or NEXT_PUBLIC_VOICE_AGENTS, then reload.',
+  'recording.title': 'Session recording',
+  'recording.dismiss': 'Dismiss',
+  'recording.converting': 'Converting...',
+  'recording.captions': 'Captions (VTT)',
+  'recording.wavFailed': 'WAV conversion failed',
+  'history.viewing': 'Viewing saved conversation:',
+  'history.backToLive': 'Back to live',
+  'history.title': 'History',
+  'history.search': 'Search conversations',
+  'history.past': 'Past conversations',
+  'history.matches': '{count} of {total}',
+  'history.empty': 'Conversations are saved here automatically',
+  'history.noMatches': 'No matching conversations',
+  'history.live': 'Live',
+  'history.untitled': 'Untitled conversation',
+  'history.turns': { one: '{count} turn', other: '{count} turns' },
+  'history.durationMinutes': '{minutes}m {seconds}s',
+  'history.durationSeconds': '{seconds}s',
+  'history.rename': 'Rename',
+  'history.delete': 'Delete',
+  'history.confirmDelete': 'Delete conversation',
+  'history.cancel': 'Cancel',
+  'settings.title': 'Settings',
+  'settings.showTranscript': 'Show transcript',
+  'settings.showTranscriptHint': 'Display conversation text below',
+  'settings.language': 'Language',
+  'settings.languageHint': 'Sent to the agent and used for the interface',
+  'settings.languageDefault': 'Agent default ({language})',
+  'settings.close': 'Close',
+  'settings.micMode': 'Microphone mode',
+  'settings.micModeOpen': 'Open mic',
+  'settings.micModePushToTalk': 'Push to talk',
+  'settings.micModeOpenHint': 'Audio is sent whenever the session is open',
+  'settings.micModePushToTalkHint': 'Hold space or the mic button to talk',
+  'settings.vad': 'Suppress silence',
+  'settings.vadHint': 'Only send audio while you are speaking',
+  'settings.vadSensitivity': 'Speech detection sensitivity',
+  'settings.sensitivityLow': 'Low',
+  'settings.sensitivityMedium': 'Medium',
+  'settings.sensitivityHigh': 'High',
+  'settings.volume': 'Assistant volume',
+  'settings.ducking': 'Duck while speaking',
+  'settings.duckingHint': 'Lower the assistant when you talk over it',
+  'settings.speakReplies': 'Speak typed replies',
+  'settings.speakRepliesHint': 'Read answers to typed messages aloud',
+  'settings.speakRepliesUnsupported': 'Speech synthesis is not supported in this browser',
+  'settings.record': 'Record sessions',
+  'settings.recordHint': 'Download the audio when a session ends',
+  'settings.recordUnsupported': 'Recording is not supported in this browser',
+  'settings.recordLayoutHint': 'You on the left, assistant on the right, or both together',
+  'settings.recordLayoutSplit': 'Separate channels',
+  'settings.recordLayoutMixed': 'Mixed',
+  'settings.devices': 'Audio devices',
+  'settings.microphone': 'Microphone',
+  'settings.speaker': 'Speaker',
+  'settings.microphoneNumber': 'Microphone {number}',
+  'settings.speakerNumber': 'Speaker {number}',
+  'settings.systemDefault': 'System default',
+  'settings.unavailableDevice': 'Unavailable device',
+  'settings.outputUnsupported': 'Output selection is not supported in this browser',
+  'diagnostics.title': 'Playback diagnostics',
+  'diagnostics.unavailable': 'Available during a voice session',
+  'diagnostics.underruns': 'Underruns',
+  'diagnostics.averageBuffered': 'Avg buffered',
+  'diagnostics.currentBuffered': 'Buffered now',
+  'diagnostics.targetLatency': 'Target latency',
+  'diagnostics.milliseconds': '{value} ms',
+  'error.title': 'Something went wrong',
+  'error.retry': 'Try again',
+}
+
+export type MessageKey = keyof typeof EN
+type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string }
+type Messages = Record<MessageKey, string | PluralMessage>
+
+const MESSAGES: Record<string, Messages> = {
+  en: EN,
+  es: {
+    'status.idle': 'Toca para empezar',
+    'status.connecting': 'Conectando...',
+    'status.reconnecting': 'Reconectando...',
+    'status.listening': 'Escuchando...',
+    'status.thinking': 'Pensando...',
+    'status.speaking': 'Hablando...',
+    'status.error': 'Se produjo un error',
+    'transcript.title': 'Transcripción',
+    'transcript.empty': 'Tu conversación aparecerá aquí',
+    'transcript.newConversation': 'Nueva conversación',
+    'transcript.export': 'Exportar',
+    'transcript.interrupted': 'Interrumpido',
+    'transcript.typed': 'Escrito',
+    'transcript.replay': 'Repetir (pulsa R para la última)',
+    'transcript.stopReplay': 'Detener reproducción',
+    'transcript.hidden': 'Transcripción oculta: actívala en los ajustes',
+    'export.markdown': 'Markdown',
+    'export.json': 'JSON',
+    'export.txt': 'Texto sin formato',
+    'export.srt': 'SubRip (SRT)',
+    'export.vtt': 'WebVTT',
+    'composer.placeholder': 'Escribe un mensaje',
+    'composer.waiting': 'Esperando respuesta...',
+    'composer.send': 'Enviar',
+    'composer.label': 'Mensaje',
+    'composer.noReply': 'El agente no respondió',
+    'session.releaseToSend': 'Suelta para enviar',
+    'session.holdToTalk': 'Mantén pulsada la barra espaciadora o el botón para hablar',
+    'session.end': 'Finalizar sesión',
+    'session.muted': 'Micrófono silenciado',
+    'session.mute': 'Silenciar',
+    'session.unmute': 'Activar micrófono',
+    'header.sampleData': 'Datos de ejemplo',
+    'agent.choose': 'Elige un agente de voz',
+    'agent.switchEndsSession': 'Cambiar de agente finaliza la sesión actual',
+    'agent.voice': 'Voz: {voice}',
+    'agent.none': 'No hay agentes de voz configurados',
+    'agent.noneHint': 'Añade un agente de voz a workflow_state.json o NEXT_PUBLIC_VOICE_AGENTS y recarga la página.',
+    'recording.title': 'Grabación de la sesión',
+    'recording.dismiss': 'Descartar',
+    'recording.converting': 'Convirtiendo...',
+    'recording.captions': 'Subtítulos (VTT)',
+    'recording.wavFailed': 'No se pudo convertir a WAV',
+    'history.viewing': 'Viendo conversación guardada:',
+    'history.backToLive': 'Volver a la sesión en vivo',
+    'history.title': 'Historial',
+    'history.search': 'Buscar conversaciones',
+    'history.past': 'Conversaciones anteriores',
+    'history.matches': '{count} de {total}',
+    'history.empty': 'Las conversaciones se guardan aquí automáticamente',
+    'history.noMatches': 'No hay conversaciones que coincidan',
+    'history.live': 'En vivo',
+    'history.untitled': 'Conversación sin título',
+    'history.turns': { one: '{count} turno', other: '{count} turnos' },
+    'history.durationMinutes': '{minutes} min {seconds} s',
+    'history.durationSeconds': '{seconds} s',
+    'history.rename': 'Renombrar',
+    'history.delete': 'Eliminar',
+    'history.confirmDelete': 'Eliminar conversación',
+    'history.cancel': 'Cancelar',
+    'settings.title': 'Ajustes',
+    'settings.showTranscript': 'Mostrar transcripción',
+    'settings.showTranscriptHint': 'Muestra el texto de la conversación debajo',
+    'settings.language': 'Idioma',
+    'settings.languageHint': 'Se envía al agente y se usa en la interfaz',
+    'settings.languageDefault': 'Predeterminado del agente ({language})',
+    'settings.close': 'Cerrar',
+    'settings.micMode': 'Modo del micrófono',
+    'settings.micModeOpen': 'Micrófono abierto',
+    'settings.micModePushToTalk': 'Pulsar para hablar',
+    'settings.micModeOpenHint': 'El audio se envía mientras la sesión esté abierta',
+    'settings.micModePushToTalkHint': 'Mantén pulsada la barra espaciadora o el botón del micrófono para hablar',
+    'settings.vad': 'Suprimir silencios',
+    'settings.vadHint': 'Solo se envía audio mientras hablas',
+    'settings.vadSensitivity': 'Sensibilidad de detección de voz',
+    'settings.sensitivityLow': 'Baja',
+    'settings.sensitivityMedium': 'Media',
+    'settings.sensitivityHigh': 'Alta',
+    'settings.volume': 'Volumen del asistente',
+    'settings.ducking': 'Atenuar al hablar',
+    'settings.duckingHint': 'Baja el volumen del asistente cuando le hablas encima',
+    'settings.speakReplies': 'Leer respuestas escritas',
+    'settings.speakRepliesHint': 'Lee en voz alta las respuestas a los mensajes escritos',
+    'settings.speakRepliesUnsupported': 'Este navegador no admite síntesis de voz',
+    'settings.record': 'Grabar sesiones',
+    'settings.recordHint': 'Descarga el audio al terminar la sesión',
+    'settings.recordUnsupported': 'Este navegador no admite grabación',
+    'settings.recordLayoutHint': 'Tú en el canal izquierdo, el asistente en el derecho, o ambos juntos',
+    'settings.recordLayoutSplit': 'Canales separados',
+    'settings.recordLayoutMixed': 'Mezclado',
+    'settings.devices': 'Dispositivos de audio',
+    'settings.microphone': 'Micrófono',
+    'settings.speaker': 'Altavoz',
+    'settings.microphoneNumber': 'Micrófono {number}',
+    'settings.speakerNumber': 'Altavoz {number}',
+    'settings.systemDefault': 'Predeterminado del sistema',
+    'settings.unavailableDevice': 'Dispositivo no disponible',
+    'settings.outputUnsupported': 'Este navegador no permite elegir la salida de audio',
+    'diagnostics.title': 'Diagnóstico de reproducción',
+    'diagnostics.unavailable': 'Disponible durante una sesión de voz',
+    'diagnostics.underruns': 'Interrupciones',
+    'diagnostics.averageBuffered': 'Búfer medio',
+    'diagnostics.currentBuffered': 'Búfer actual',
+    'diagnostics.targetLatency': 'Latencia objetivo',
+    'diagnostics.milliseconds': '{value} ms',
+    'error.title': 'Algo salió mal',
+    'error.retry': 'Reintentar',
+  },
+  fr: {
+    'status.idle': 'Touchez pour commencer',
+    'status.connecting': 'Connexion...',
+    'status.reconnecting': 'Reconnexion...',
+    'status.listening': 'À l\'écoute...',
+    'status.thinking': 'Réflexion...',
+    'status.speaking': 'En train de parler...',
+    'status.error': 'Une erreur est survenue',
+    'transcript.title': 'Transcription',
+    'transcript.empty': 'Votre conversation apparaîtra ici',
+    'transcript.newConversation': 'Nouvelle conversation',
+    'transcript.export': 'Exporter',
+    'transcript.interrupted': 'Interrompu',
+    'transcript.typed': 'Saisi',
+    'transcript.replay': 'Réécouter (R pour la dernière)',
+    'transcript.stopReplay': 'Arrêter la lecture',
+    'transcript.hidden': 'Transcription masquée : activez-la dans les paramètres',
+    'export.markdown': 'Markdown',
+    'export.json': 'JSON',
+    'export.txt': 'Texte brut',
+    'export.srt': 'SubRip (SRT)',
+    'export.vtt': 'WebVTT',
+    'composer.placeholder': 'Écrivez un message',
+    'composer.waiting': 'En attente d\'une réponse...',
+    'composer.send': 'Envoyer',
+    'composer.label': 'Message',
+    'composer.noReply': 'L\'agent n\'a pas répondu',
+    'session.releaseToSend': 'Relâchez pour envoyer',
+    'session.holdToTalk': 'Maintenez Espace ou le bouton pour parler',
+    'session.end': 'Terminer la session',
+    'session.muted': 'Micro coupé',
+    'session.mute': 'Couper le micro',
+    'session.unmute': 'Réactiver le micro',
+    'header.sampleData': 'Données d’exemple',
+    'agent.choose': 'Choisir un agent vocal',
+    'agent.switchEndsSession': 'Changer d’agent met fin à la session en cours',
+    'agent.voice': 'Voix : {voice}',
+    'agent.none': 'Aucun agent vocal n’est configuré',
+    'agent.noneHint': 'Ajoutez un agent vocal à workflow_state.json ou NEXT_PUBLIC_VOICE_AGENTS, puis rechargez la page.',
+    'recording.title': 'Enregistrement de la session',
+    'recording.dismiss': 'Fermer',
+    'recording.converting': 'Conversion...',
+    'recording.captions': 'Sous-titres (VTT)',
+    'recording.wavFailed': 'Échec de la conversion en WAV',
+    'history.viewing': 'Conversation enregistrée :',
+    'history.backToLive': 'Retour au direct',
+    'history.title': 'Historique',
+    'history.search': 'Rechercher des conversations',
+    'history.past': 'Conversations précédentes',
+    'history.matches': '{count} sur {total}',
+    'history.empty': 'Les conversations sont enregistrées ici automatiquement',
+    'history.noMatches': 'Aucune conversation correspondante',
+    'history.live': 'En direct',
+    'history.untitled': 'Conversation sans titre',
+    'history.turns': { one: '{count} échange', other: '{count} échanges' },
+    'history.durationMinutes': '{minutes} min {seconds} s',
+    'history.durationSeconds': '{seconds} s',
+    'history.rename': 'Renommer',
+    'history.delete': 'Supprimer',
+    'history.confirmDelete': 'Supprimer la conversation',
+    'history.cancel': 'Annuler',
+    'settings.title': 'Paramètres',
+    'settings.showTranscript': 'Afficher la transcription',
+    'settings.showTranscriptHint': 'Afficher le texte de la conversation ci-dessous',
+    'settings.language': 'Langue',
+    'settings.languageHint': 'Transmise à l\'agent et utilisée pour l\'interface',
+    'settings.languageDefault': 'Langue de l\'agent ({language})',
+    'settings.close': 'Fermer',
+    'settings.micMode': 'Mode du micro',
+    'settings.micModeOpen': 'Micro ouvert',
+    'settings.micModePushToTalk': 'Appuyer pour parler',
+    'settings.micModeOpenHint': 'L’audio est envoyé tant que la session est ouverte',
+    'settings.micModePushToTalkHint': 'Maintenez la barre d’espace ou le bouton du micro pour parler',
+    'settings.vad': 'Supprimer les silences',
+    'settings.vadHint': 'N’envoyer l’audio que lorsque vous parlez',
+    'settings.vadSensitivity': 'Sensibilité de détection de la parole',
+    'settings.sensitivityLow': 'Faible',
+    'settings.sensitivityMedium': 'Moyenne',
+    'settings.sensitivityHigh': 'Élevée',
+    'settings.volume': 'Volume de l’assistant',
+    'settings.ducking': 'Atténuer pendant que vous parlez',
+    'settings.duckingHint': 'Baisse l’assistant quand vous lui coupez la parole',
+    'settings.speakReplies': 'Lire les réponses écrites',
+    'settings.speakRepliesHint': 'Lit à voix haute les réponses aux messages écrits',
+    'settings.speakRepliesUnsupported': 'La synthèse vocale n’est pas prise en charge par ce navigateur',
+    'settings.record': 'Enregistrer les sessions',
+    'settings.recordHint': 'Télécharger l’audio à la fin d’une session',
+    'settings.recordUnsupported': 'L’enregistrement n’est pas pris en charge par ce navigateur',
+    'settings.recordLayoutHint': 'Vous sur le canal gauche, l’assistant sur le droit, ou les deux ensemble',
+    'settings.recordLayoutSplit': 'Canaux séparés',
+    'settings.recordLayoutMixed': 'Mixé',
+    'settings.devices': 'Périphériques audio',
+    'settings.microphone': 'Microphone',
+    'settings.speaker': 'Haut-parleur',
+    'settings.microphoneNumber': 'Microphone {number}',
+    'settings.speakerNumber': 'Haut-parleur {number}',
+    'settings.systemDefault': 'Par défaut du système',
+    'settings.unavailableDevice': 'Périphérique indisponible',
+    'settings.outputUnsupported': 'Le choix de la sortie n’est pas pris en charge par ce navigateur',
+    'diagnostics.title': 'Diagnostic de lecture',
+    'diagnostics.unavailable': 'Disponible pendant une session vocale',
+    'diagnostics.underruns': 'Sous-alimentations',
+    'diagnostics.averageBuffered': 'Tampon moyen',
+    'diagnostics.currentBuffered': 'Tampon actuel',
+    'diagnostics.targetLatency': 'Latence cible',
+    'diagnostics.milliseconds': '{value} ms',
+    'error.title': 'Une erreur est survenue',
+    'error.retry': 'Réessayer',
+  },
+  de: {
+    'status.idle': 'Zum Starten tippen',
+    'status.connecting': 'Verbinden...',
+    'status.reconnecting': 'Erneut verbinden...',
+    'status.listening': 'Hört zu...',
+    'status.thinking': 'Denkt nach...',
+    'status.speaking': 'Spricht...',
+    'status.error': 'Ein Fehler ist aufgetreten',
+    'transcript.title': 'Transkript',
+    'transcript.empty': 'Ihr Gespräch erscheint hier',
+    'transcript.newConversation': 'Neues Gespräch',
+    'transcript.export': 'Exportieren',
+    'transcript.interrupted': 'Unterbrochen',
+    'transcript.typed': 'Getippt',
+    'transcript.replay': 'Erneut abspielen (R für die letzte)',
+    'transcript.stopReplay': 'Wiedergabe stoppen',
+    'transcript.hidden': 'Transkript ausgeblendet -- in den Einstellungen aktivieren',
+    'export.markdown': 'Markdown',
+    'export.json': 'JSON',
+    'export.txt': 'Nur Text',
+    'export.srt': 'SubRip (SRT)',
+    'export.vtt': 'WebVTT',
+    'composer.placeholder': 'Nachricht eingeben',
+    'composer.waiting': 'Warte auf Antwort...',
+    'composer.send': 'Senden',
+    'composer.label': 'Nachricht',
+    'composer.noReply': 'Der Agent hat nicht geantwortet',
+    'session.releaseToSend': 'Zum Senden loslassen',
+    'session.holdToTalk': 'Leertaste oder Taste gedrückt halten, um zu sprechen',
+    'session.end': 'Sitzung beenden',
+    'session.muted': 'Mikrofon stummgeschaltet',
+    'session.mute': 'Stummschalten',
+    'session.unmute': 'Stummschaltung aufheben',
+    'header.sampleData': 'Beispieldaten',
+    'agent.choose': 'Sprachagent auswählen',
+    'agent.switchEndsSession': 'Ein Agentenwechsel beendet die aktuelle Sitzung',
+    'agent.voice': 'Stimme: {voice}',
+    'agent.none': 'Keine Sprachagenten konfiguriert',
+    'agent.noneHint': 'Füge einen Sprachagenten zu workflow_state.json oder NEXT_PUBLIC_VOICE_AGENTS hinzu und lade die Seite neu.',
+    'recording.title': 'Sitzungsaufnahme',
+    'recording.dismiss': 'Schließen',
+    'recording.converting': 'Wird konvertiert...',
+    'recording.captions': 'Untertitel (VTT)',
+    'recording.wavFailed': 'WAV-Konvertierung fehlgeschlagen',
+    'history.viewing': 'Gespeichertes Gespräch:',
+    'history.backToLive': 'Zurück zur Live-Sitzung',
+    'history.title': 'Verlauf',
+    'history.search': 'Unterhaltungen durchsuchen',
+    'history.past': 'Frühere Unterhaltungen',
+    'history.matches': '{count} von {total}',
+    'history.empty': 'Unterhaltungen werden hier automatisch gespeichert',
+    'history.noMatches': 'Keine passenden Unterhaltungen',
+    'history.live': 'Live',
+    'history.untitled': 'Unbenannte Unterhaltung',
+    'history.turns': { one: '{count} Beitrag', other: '{count} Beiträge' },
+    'history.durationMinutes': '{minutes} Min. {seconds} Sek.',
+    'history.durationSeconds': '{seconds} Sek.',
+    'history.rename': 'Umbenennen',
+    'history.delete': 'Löschen',
+    'history.confirmDelete': 'Unterhaltung löschen',
+    'history.cancel': 'Abbrechen',
+    'settings.title': 'Einstellungen',
+    'settings.showTranscript': 'Transkript anzeigen',
+    'settings.showTranscriptHint': 'Gesprächstext unten anzeigen',
+    'settings.language': 'Sprache',
+    'settings.languageHint': 'Wird an den Agenten gesendet und für die Oberfläche verwendet',
+    'settings.languageDefault': 'Standard des Agenten ({language})',
+    'settings.close': 'Schließen',
+    'settings.micMode': 'Mikrofonmodus',
+    'settings.micModeOpen': 'Offenes Mikrofon',
+    'settings.micModePushToTalk': 'Drücken zum Sprechen',
+    'settings.micModeOpenHint': 'Audio wird gesendet, solange die Sitzung offen ist',
+    'settings.micModePushToTalkHint': 'Leertaste oder Mikrofontaste gedrückt halten, um zu sprechen',
+    'settings.vad': 'Stille unterdrücken',
+    'settings.vadHint': 'Audio nur senden, während du sprichst',
+    'settings.vadSensitivity': 'Empfindlichkeit der Spracherkennung',
+    'settings.sensitivityLow': 'Niedrig',
+    'settings.sensitivityMedium': 'Mittel',
+    'settings.sensitivityHigh': 'Hoch',
+    'settings.volume': 'Lautstärke des Assistenten',
+    'settings.ducking': 'Beim Sprechen absenken',
+    'settings.duckingHint': 'Assistent leiser stellen, wenn du dazwischen sprichst',
+    'settings.speakReplies': 'Getippte Antworten vorlesen',
+    'settings.speakRepliesHint': 'Antworten auf getippte Nachrichten laut vorlesen',
+    'settings.speakRepliesUnsupported': 'Sprachausgabe wird in diesem Browser nicht unterstützt',
+    'settings.record': 'Sitzungen aufnehmen',
+    'settings.recordHint': 'Audio nach Ende der Sitzung herunterladen',
+    'settings.recordUnsupported': 'Aufnahmen werden in diesem Browser nicht unterstützt',
+    'settings.recordLayoutHint': 'Du auf dem linken Kanal, der Assistent auf dem rechten, oder beide zusammen',
+    'settings.recordLayoutSplit': 'Getrennte Kanäle',
+    'settings.recordLayoutMixed': 'Gemischt',
+    'settings.devices': 'Audiogeräte',
+    'settings.microphone': 'Mikrofon',
+    'settings.speaker': 'Lautsprecher',
+    'settings.microphoneNumber': 'Mikrofon {number}',
+    'settings.speakerNumber': 'Lautsprecher {number}',
+    'settings.systemDefault': 'Systemstandard',
+    'settings.unavailableDevice': 'Gerät nicht verfügbar',
+    'settings.outputUnsupported': 'Die Auswahl der Ausgabe wird in diesem Browser nicht unterstützt',
+    'diagnostics.title': 'Wiedergabediagnose',
+    'diagnostics.unavailable': 'Während einer Sprachsitzung verfügbar',
+    'diagnostics.underruns': 'Pufferleerläufe',
+    'diagnostics.averageBuffered': 'Ø gepuffert',
+    'diagnostics.currentBuffered': 'Aktuell gepuffert',
+    'diagnostics.targetLatency': 'Ziellatenz',
+    'diagnostics.milliseconds': '{value} ms',
+    'error.title': 'Etwas ist schiefgelaufen',
+    'error.retry': 'Erneut versuchen',
+  },
+  it: {
+    'status.idle': 'Tocca per iniziare',
+    'status.connecting': 'Connessione...',
+    'status.reconnecting': 'Riconnessione...',
+    'status.listening': 'In ascolto...',
+    'status.thinking': 'Sto pensando...',
+    'status.speaking': 'Sto parlando...',
+    'status.error': 'Si è verificato un errore',
+    'transcript.title': 'Trascrizione',
+    'transcript.empty': 'La conversazione apparirà qui',
+    'transcript.newConversation': 'Nuova conversazione',
+    'transcript.export': 'Esporta',
+    'transcript.interrupted': 'Interrotto',
+    'transcript.typed': 'Scritto',
+    'transcript.replay': 'Riascolta (premi R per l’ultimo)',
+    'transcript.stopReplay': 'Interrompi riascolto',
+    'transcript.hidden': 'Trascrizione nascosta: attivala nelle impostazioni',
+    'export.markdown': 'Markdown',
+    'export.json': 'JSON',
+    'export.txt': 'Testo semplice',
+    'export.srt': 'SubRip (SRT)',
+    'export.vtt': 'WebVTT',
+    'composer.placeholder': 'Scrivi un messaggio',
+    'composer.waiting': 'In attesa di risposta...',
+    'composer.send': 'Invia',
+    'composer.label': 'Messaggio',
+    'composer.noReply': 'L\'agente non ha risposto',
+    'session.releaseToSend': 'Rilascia per inviare',
+    'session.holdToTalk': 'Tieni premuto lo spazio o il pulsante per parlare',
+    'session.end': 'Termina sessione',
+    'session.muted': 'Microfono disattivato',
+    'session.mute': 'Disattiva audio',
+    'session.unmute': 'Riattiva audio',
+    'header.sampleData': 'Dati di esempio',
+    'agent.choose': 'Scegli un agente vocale',
+    'agent.switchEndsSession': 'Cambiare agente termina la sessione corrente',
+    'agent.voice': 'Voce: {voice}',
+    'agent.none': 'Nessun agente vocale configurato',
+    'agent.noneHint': 'Aggiungi un agente vocale a workflow_state.json o NEXT_PUBLIC_VOICE_AGENTS, poi ricarica la pagina.',
+    'recording.title': 'Registrazione della sessione',
+    'recording.dismiss': 'Chiudi',
+    'recording.converting': 'Conversione...',
+    'recording.captions': 'Sottotitoli (VTT)',
+    'recording.wavFailed': 'Conversione in WAV non riuscita',
+    'history.viewing': 'Stai visualizzando una conversazione salvata:',
+    'history.backToLive': 'Torna alla sessione dal vivo',
+    'history.title': 'Cronologia',
+    'history.search': 'Cerca conversazioni',
+    'history.past': 'Conversazioni precedenti',
+    'history.matches': '{count} di {total}',
+    'history.empty': 'Le conversazioni vengono salvate qui automaticamente',
+    'history.noMatches': 'Nessuna conversazione corrispondente',
+    'history.live': 'Dal vivo',
+    'history.untitled': 'Conversazione senza titolo',
+    'history.turns': { one: '{count} turno', other: '{count} turni' },
+    'history.durationMinutes': '{minutes} min {seconds} s',
+    'history.durationSeconds': '{seconds} s',
+    'history.rename': 'Rinomina',
+    'history.delete': 'Elimina',
+    'history.confirmDelete': 'Elimina conversazione',
+    'history.cancel': 'Annulla',
+    'settings.title': 'Impostazioni',
+    'settings.showTranscript': 'Mostra trascrizione',
+    'settings.showTranscriptHint': 'Mostra il testo della conversazione qui sotto',
+    'settings.language': 'Lingua',
+    'settings.languageHint': 'Inviata all’agente e usata per l’interfaccia',
+    'settings.languageDefault': 'Predefinita dell’agente ({language})',
+    'settings.close': 'Chiudi',
+    'settings.micMode': 'Modalità microfono',
+    'settings.micModeOpen': 'Microfono aperto',
+    'settings.micModePushToTalk': 'Premi per parlare',
+    'settings.micModeOpenHint': 'L’audio viene inviato finché la sessione è aperta',
+    'settings.micModePushToTalkHint': 'Tieni premuto lo spazio o il pulsante del microfono per parlare',
+    'settings.vad': 'Elimina i silenzi',
+    'settings.vadHint': 'Invia l’audio solo mentre parli',
+    'settings.vadSensitivity': 'Sensibilità del rilevamento vocale',
+    'settings.sensitivityLow': 'Bassa',
+    'settings.sensitivityMedium': 'Media',
+    'settings.sensitivityHigh': 'Alta',
+    'settings.volume': 'Volume dell’assistente',
+    'settings.ducking': 'Abbassa mentre parli',
+    'settings.duckingHint': 'Abbassa l’assistente quando gli parli sopra',
+    'settings.speakReplies': 'Leggi le risposte scritte',
+    'settings.speakRepliesHint': 'Legge ad alta voce le risposte ai messaggi scritti',
+    'settings.speakRepliesUnsupported': 'La sintesi vocale non è supportata da questo browser',
+    'settings.record': 'Registra le sessioni',
+    'settings.recordHint': 'Scarica l’audio al termine della sessione',
+    'settings.recordUnsupported': 'La registrazione non è supportata da questo browser',
+    'settings.recordLayoutHint': 'Tu sul canale sinistro, l’assistente sul destro, o entrambi insieme',
+    'settings.recordLayoutSplit': 'Canali separati',
+    'settings.recordLayoutMixed': 'Mixato',
+    'settings.devices': 'Dispositivi audio',
+    'settings.microphone': 'Microfono',
+    'settings.speaker': 'Altoparlante',
+    'settings.microphoneNumber': 'Microfono {number}',
+    'settings.speakerNumber': 'Altoparlante {number}',
+    'settings.systemDefault': 'Predefinito di sistema',
+    'settings.unavailableDevice': 'Dispositivo non disponibile',
+    'settings.outputUnsupported': 'La scelta dell’uscita non è supportata da questo browser',
+    'diagnostics.title': 'Diagnostica di riproduzione',
+    'diagnostics.unavailable': 'Disponibile durante una sessione vocale',
+    'diagnostics.underruns': 'Svuotamenti del buffer',
+    'diagnostics.averageBuffered': 'Buffer medio',
+    'diagnostics.currentBuffered': 'Buffer attuale',
+    'diagnostics.targetLatency': 'Latenza obiettivo',
+    'diagnostics.milliseconds': '{value} ms',
+    'error.title': 'Qualcosa è andato storto',
+    'error.retry': 'Riprova',
+  },
+  pt: {
+    'status.idle': 'Toque para começar',
+    'status.connecting': 'Conectando...',
+    'status.reconnecting': 'Reconectando...',
+    'status.listening': 'Ouvindo...',
+    'status.thinking': 'Pensando...',
+    'status.speaking': 'Falando...',
+    'status.error': 'Ocorreu um erro',
+    'transcript.title': 'Transcrição',
+    'transcript.empty': 'Sua conversa aparecerá aqui',
+    'transcript.newConversation': 'Nova conversa',
+    'transcript.export': 'Exportar',
+    'transcript.interrupted': 'Interrompido',
+    'transcript.typed': 'Digitado',
+    'transcript.replay': 'Repetir (pressione R para a última)',
+    'transcript.stopReplay': 'Parar reprodução',
+    'transcript.hidden': 'Transcrição oculta: ative nas configurações',
+    'export.markdown': 'Markdown',
+    'export.json': 'JSON',
+    'export.txt': 'Texto simples',
+    'export.srt': 'SubRip (SRT)',
+    'export.vtt': 'WebVTT',
+    'composer.placeholder': 'Digite uma mensagem',
+    'composer.waiting': 'Aguardando resposta...',
+    'composer.send': 'Enviar',
+    'composer.label': 'Mensagem',
+    'composer.noReply': 'O agente não respondeu',
+    'session.releaseToSend': 'Solte para enviar',
+    'session.holdToTalk': 'Segure a barra de espaço ou o botão para falar',
+    'session.end': 'Encerrar sessão',
+    'session.muted': 'Microfone silenciado',
+    'session.mute': 'Silenciar',
+    'session.unmute': 'Ativar som',
+    'header.sampleData': 'Dados de exemplo',
+    'agent.choose': 'Escolha um agente de voz',
+    'agent.switchEndsSession': 'Trocar de agente encerra a sessão atual',
+    'agent.voice': 'Voz: {voice}',
+    'agent.none': 'Nenhum agente de voz configurado',
+    'agent.noneHint': 'Adicione um agente de voz em workflow_state.json ou NEXT_PUBLIC_VOICE_AGENTS e recarregue a página.',
+    'recording.title': 'Gravação da sessão',
+    'recording.dismiss': 'Dispensar',
+    'recording.converting': 'Convertendo...',
+    'recording.captions': 'Legendas (VTT)',
+    'recording.wavFailed': 'Falha na conversão para WAV',
+    'history.viewing': 'Vendo conversa salva:',
+    'history.backToLive': 'Voltar à sessão ao vivo',
+    'history.title': 'Histórico',
+    'history.search': 'Pesquisar conversas',
+    'history.past': 'Conversas anteriores',
+    'history.matches': '{count} de {total}',
+    'history.empty': 'As conversas são salvas aqui automaticamente',
+    'history.noMatches': 'Nenhuma conversa corresponde',
+    'history.live': 'Ao vivo',
+    'history.untitled': 'Conversa sem título',
+    'history.turns': { one: '{count} turno', other: '{count} turnos' },
+    'history.durationMinutes': '{minutes} min {seconds} s',
+    'history.durationSeconds': '{seconds} s',
+    'history.rename': 'Renomear',
+    'history.delete': 'Excluir',
+    'history.confirmDelete': 'Excluir conversa',
+    'history.cancel': 'Cancelar',
+    'settings.title': 'Configurações',
+    'settings.showTranscript': 'Mostrar transcrição',
+    'settings.showTranscriptHint': 'Exibe o texto da conversa abaixo',
+    'settings.language': 'Idioma',
+    'settings.languageHint': 'Enviado ao agente e usado na interface',
+    'settings.languageDefault': 'Padrão do agente ({language})',
+    'settings.close': 'Fechar',
+    'settings.micMode': 'Modo do microfone',
+    'settings.micModeOpen': 'Microfone aberto',
+    'settings.micModePushToTalk': 'Pressione para falar',
+    'settings.micModeOpenHint': 'O áudio é enviado enquanto a sessão estiver aberta',
+    'settings.micModePushToTalkHint': 'Segure a barra de espaço ou o botão do microfone para falar',
+    'settings.vad': 'Suprimir silêncio',
+    'settings.vadHint': 'Enviar áudio apenas enquanto você fala',
+    'settings.vadSensitivity': 'Sensibilidade da detecção de fala',
+    'settings.sensitivityLow': 'Baixa',
+    'settings.sensitivityMedium': 'Média',
+    'settings.sensitivityHigh': 'Alta',
+    'settings.volume': 'Volume do assistente',
+    'settings.ducking': 'Abaixar enquanto você fala',
+    'settings.duckingHint': 'Abaixa o assistente quando você fala por cima',
+    'settings.speakReplies': 'Ler respostas digitadas',
+    'settings.speakRepliesHint': 'Lê em voz alta as respostas a mensagens digitadas',
+    'settings.speakRepliesUnsupported': 'Este navegador não oferece síntese de voz',
+    'settings.record': 'Gravar sessões',
+    'settings.recordHint': 'Baixar o áudio ao final da sessão',
+    'settings.recordUnsupported': 'Este navegador não oferece gravação',
+    'settings.recordLayoutHint': 'Você no canal esquerdo, o assistente no direito, ou ambos juntos',
+    'settings.recordLayoutSplit': 'Canais separados',
+    'settings.recordLayoutMixed': 'Mixado',
+    'settings.devices': 'Dispositivos de áudio',
+    'settings.microphone': 'Microfone',
+    'settings.speaker': 'Alto-falante',
+    'settings.microphoneNumber': 'Microfone {number}',
+    'settings.speakerNumber': 'Alto-falante {number}',
+    'settings.systemDefault': 'Padrão do sistema',
+    'settings.unavailableDevice': 'Dispositivo indisponível',
+    'settings.outputUnsupported': 'Este navegador não permite escolher a saída de áudio',
+    'diagnostics.title': 'Diagnóstico de reprodução',
+    'diagnostics.unavailable': 'Disponível durante uma sessão de voz',
+    'diagnostics.underruns': 'Esvaziamentos do buffer',
+    'diagnostics.averageBuffered': 'Buffer médio',
+    'diagnostics.currentBuffered': 'Buffer atual',
+    'diagnostics.targetLatency': 'Latência alvo',
+    'diagnostics.milliseconds': '{value} ms',
+    'error.title': 'Algo deu errado',
+    'error.retry': 'Tentar novamente',
+  },
+  ar: {
+    'status.idle': 'اضغط للبدء',
+    'status.connecting': 'جارٍ الاتصال...',
+    'status.reconnecting': 'جارٍ إعادة الاتصال...',
+    'status.listening': 'جارٍ الاستماع...',
+    'status.thinking': 'جارٍ التفكير...',
+    'status.speaking': 'جارٍ التحدث...',
+    'status.error': 'حدث خطأ',
+    'transcript.title': 'نص المحادثة',
+    'transcript.empty': 'ستظهر محادثتك هنا',
+    'transcript.newConversation': 'محادثة جديدة',
+    'transcript.export': 'تصدير',
+    'transcript.interrupted': 'تمت المقاطعة',
+    'transcript.typed': 'مكتوب',
+    'transcript.replay': 'إعادة التشغيل (اضغط R للأحدث)',
+    'transcript.stopReplay': 'إيقاف إعادة التشغيل',
+    'transcript.hidden': 'نص المحادثة مخفي -- فعّله من الإعدادات',
+    'export.markdown': 'Markdown',
+    'export.json': 'JSON',
+    'export.txt': 'نص عادي',
+    'export.srt': 'SubRip (SRT)',
+    'export.vtt': 'WebVTT',
+    'composer.placeholder': 'اكتب رسالة',
+    'composer.waiting': 'في انتظار الرد...',
+    'composer.send': 'إرسال',
+    'composer.label': 'الرسالة',
+    'composer.noReply': 'لم يرد الوكيل',
+    'session.releaseToSend': 'أفلت للإرسال',
+    'session.holdToTalk': 'اضغط مطولًا على مفتاح المسافة أو الزر للتحدث',
+    'session.end': 'إنهاء الجلسة',
+    'session.muted': 'الميكروفون مكتوم',
+    'session.mute': 'كتم الصوت',
+    'session.unmute': 'إلغاء الكتم',
+    'header.sampleData': 'بيانات تجريبية',
+    'agent.choose': 'اختر وكيلًا صوتيًا',
+    'agent.switchEndsSession': 'تبديل الوكيل ينهي الجلسة الحالية',
+    'agent.voice': 'الصوت: {voice}',
+    'agent.none': 'لا يوجد وكلاء صوتيون مهيَّؤون',
+    'agent.noneHint': 'أضف وكيلًا صوتيًا إلى workflow_state.json أو NEXT_PUBLIC_VOICE_AGENTS ثم أعد تحميل الصفحة.',
+    'recording.title': 'تسجيل الجلسة',
+    'recording.dismiss': 'إغلاق',
+    'recording.converting': 'جارٍ التحويل...',
+    'recording.captions': 'الترجمة (VTT)',
+    'recording.wavFailed': 'فشل التحويل إلى WAV',
+    'history.viewing': 'عرض محادثة محفوظة:',
+    'history.backToLive': 'العودة إلى الجلسة المباشرة',
+    'history.title': 'السجل',
+    'history.search': 'البحث في المحادثات',
+    'history.past': 'المحادثات السابقة',
+    'history.matches': '{count} من {total}',
+    'history.empty': 'تُحفظ المحادثات هنا تلقائيًا',
+    'history.noMatches': 'لا توجد محادثات مطابقة',
+    'history.live': 'مباشر',
+    'history.untitled': 'محادثة بدون عنوان',
+    'history.turns': { zero: 'لا أدوار', one: 'دور واحد', two: 'دوران', few: '{count} أدوار', many: '{count} دورًا', other: '{count} دور' },
+    'history.durationMinutes': '{minutes} د {seconds} ث',
+    'history.durationSeconds': '{seconds} ث',
+    'history.rename': 'إعادة التسمية',
+    'history.delete': 'حذف',
+    'history.confirmDelete': 'حذف المحادثة',
+    'history.cancel': 'إلغاء',
+    'settings.title': 'الإعدادات',
+    'settings.showTranscript': 'إظهار نص المحادثة',
+    'settings.showTranscriptHint': 'عرض نص المحادثة في الأسفل',
+    'settings.language': 'اللغة',
+    'settings.languageHint': 'تُرسل إلى الوكيل وتُستخدم للواجهة',
+    'settings.languageDefault': 'لغة الوكيل الافتراضية ({language})',
+    'settings.close': 'إغلاق',
+    'settings.micMode': 'وضع الميكروفون',
+    'settings.micModeOpen': 'ميكروفون مفتوح',
+    'settings.micModePushToTalk': 'اضغط للتحدث',
+    'settings.micModeOpenHint': 'يُرسل الصوت طالما الجلسة مفتوحة',
+    'settings.micModePushToTalkHint': 'اضغط مطولًا على المسافة أو زر الميكروفون للتحدث',
+    'settings.vad': 'تجاهل الصمت',
+    'settings.vadHint': 'إرسال الصوت فقط أثناء حديثك',
+    'settings.vadSensitivity': 'حساسية اكتشاف الكلام',
+    'settings.sensitivityLow': 'منخفضة',
+    'settings.sensitivityMedium': 'متوسطة',
+    'settings.sensitivityHigh': 'عالية',
+    'settings.volume': 'مستوى صوت المساعد',
+    'settings.ducking': 'خفض الصوت أثناء الحديث',
+    'settings.duckingHint': 'خفض صوت المساعد عندما تقاطعه',
+    'settings.speakReplies': 'قراءة الردود المكتوبة',
+    'settings.speakRepliesHint': 'قراءة الردود على الرسائل المكتوبة بصوت عالٍ',
+    'settings.speakRepliesUnsupported': 'تحويل النص إلى كلام غير مدعوم في هذا المتصفح',
+    'settings.record': 'تسجيل الجلسات',
+    'settings.recordHint': 'تنزيل الصوت عند انتهاء الجلسة',
+    'settings.recordUnsupported': 'التسجيل غير مدعوم في هذا المتصفح',
+    'settings.recordLayoutHint': 'أنت على القناة اليسرى والمساعد على اليمنى، أو كلاكما معًا',
+    'settings.recordLayoutSplit': 'قنوات منفصلة',
+    'settings.recordLayoutMixed': 'مدمج',
+    'settings.devices': 'أجهزة الصوت',
+    'settings.microphone': 'الميكروفون',
+    'settings.speaker': 'مكبر الصوت',
+    'settings.microphoneNumber': 'ميكروفون {number}',
+    'settings.speakerNumber': 'مكبر صوت {number}',
+    'settings.systemDefault': 'الافتراضي للنظام',
+    'settings.unavailableDevice': 'جهاز غير متاح',
+    'settings.outputUnsupported': 'اختيار جهاز الإخراج غير مدعوم في هذا المتصفح',
+    'diagnostics.title': 'تشخيص التشغيل',
+    'diagnostics.unavailable': 'متاح أثناء جلسة صوتية',
+    'diagnostics.underruns': 'حالات نفاد المخزن',
+    'diagnostics.averageBuffered': 'متوسط المخزَّن',
+    'diagnostics.currentBuffered': 'المخزَّن حاليًا',
+    'diagnostics.targetLatency': 'زمن الاستجابة المستهدف',
+    'diagnostics.milliseconds': '{value} مللي ثانية',
+    'error.title': 'حدث خطأ ما',
+    'error.retry': 'إعادة المحاولة',
+  },
+  he: {
+    'status.idle': 'הקישו כדי להתחיל',
+    'status.connecting': 'מתחבר...',
+    'status.reconnecting': 'מתחבר מחדש...',
+    'status.listening': 'מקשיב...',
+    'status.thinking': 'חושב...',
+    'status.speaking': 'מדבר...',
+    'status.error': 'אירעה שגיאה',
+    'transcript.title': 'תמליל',
+    'transcript.empty': 'השיחה שלכם תופיע כאן',
+    'transcript.newConversation': 'שיחה חדשה',
+    'transcript.export': 'ייצוא',
+    'transcript.interrupted': 'נקטע',
+    'transcript.typed': 'הוקלד',
+    'transcript.replay': 'השמעה חוזרת (R לאחרונה)',
+    'transcript.stopReplay': 'עצירת ההשמעה',
+    'transcript.hidden': 'התמליל מוסתר -- אפשר להפעיל בהגדרות',
+    'export.markdown': 'Markdown',
+    'export.json': 'JSON',
+    'export.txt': 'טקסט פשוט',
+    'export.srt': 'SubRip (SRT)',
+    'export.vtt': 'WebVTT',
+    'composer.placeholder': 'הקלידו הודעה',
+    'composer.waiting': 'ממתין לתשובה...',
+    'composer.send': 'שליחה',
+    'composer.label': 'הודעה',
+    'composer.noReply': 'הסוכן לא ענה',
+    'session.releaseToSend': 'שחררו כדי לשלוח',
+    'session.holdToTalk': 'החזיקו את מקש הרווח או את הכפתור כדי לדבר',
+    'session.end': 'סיום השיחה',
+    'session.muted': 'המיקרופון מושתק',
+    'session.mute': 'השתקה',
+    'session.unmute': 'ביטול השתקה',
+    'header.sampleData': 'נתוני דוגמה',
+    'agent.choose': 'בחירת סוכן קולי',
+    'agent.switchEndsSession': 'החלפת סוכן מסיימת את השיחה הנוכחית',
+    'agent.voice': 'קול: {voice}',
+    'agent.none': 'לא הוגדרו סוכנים קוליים',
+    'agent.noneHint': 'יש להוסיף סוכן קולי ל-workflow_state.json או ל-NEXT_PUBLIC_VOICE_AGENTS ולטעון מחדש.',
+    'recording.title': 'הקלטת השיחה',
+    'recording.dismiss': 'סגירה',
+    'recording.converting': 'ממיר...',
+    'recording.captions': 'כתוביות (VTT)',
+    'recording.wavFailed': 'ההמרה ל-WAV נכשלה',
+    'history.viewing': 'צפייה בשיחה שמורה:',
+    'history.backToLive': 'חזרה לשיחה החיה',
+    'history.title': 'היסטוריה',
+    'history.search': 'חיפוש שיחות',
+    'history.past': 'שיחות קודמות',
+    'history.matches': '{count} מתוך {total}',
+    'history.empty': 'השיחות נשמרות כאן באופן אוטומטי',
+    'history.noMatches': 'אין שיחות תואמות',
+    'history.live': 'חי',
+    'history.untitled': 'שיחה ללא כותרת',
+    'history.turns': { one: 'תור אחד', two: 'שני תורות', other: '{count} תורות' },
+    'history.durationMinutes': '{minutes} דק׳ {seconds} שנ׳',
+    'history.durationSeconds': '{seconds} שנ׳',
+    'history.rename': 'שינוי שם',
+    'history.delete': 'מחיקה',
+    'history.confirmDelete': 'מחיקת השיחה',
+    'history.cancel': 'ביטול',
+    'settings.title': 'הגדרות',
+    'settings.showTranscript': 'הצגת תמליל',
+    'settings.showTranscriptHint': 'הצגת טקסט השיחה למטה',
+    'settings.language': 'שפה',
+    'settings.languageHint': 'נשלחת לסוכן ומשמשת לממשק',
+    'settings.languageDefault': 'ברירת המחדל של הסוכן ({language})',
+    'settings.close': 'סגירה',
+    'settings.micMode': 'מצב מיקרופון',
+    'settings.micModeOpen': 'מיקרופון פתוח',
+    'settings.micModePushToTalk': 'לחיצה לדיבור',
+    'settings.micModeOpenHint': 'השמע נשלח כל עוד השיחה פתוחה',
+    'settings.micModePushToTalkHint': 'יש להחזיק את מקש הרווח או את כפתור המיקרופון כדי לדבר',
+    'settings.vad': 'סינון שקט',
+    'settings.vadHint': 'שליחת שמע רק בזמן שמדברים',
+    'settings.vadSensitivity': 'רגישות זיהוי דיבור',
+    'settings.sensitivityLow': 'נמוכה',
+    'settings.sensitivityMedium': 'בינונית',
+    'settings.sensitivityHigh': 'גבוהה',
+    'settings.volume': 'עוצמת הקול של העוזר',
+    'settings.ducking': 'הנמכה בזמן דיבור',
+    'settings.duckingHint': 'הנמכת העוזר כשמדברים מעליו',
+    'settings.speakReplies': 'הקראת תשובות כתובות',
+    'settings.speakRepliesHint': 'הקראה בקול של תשובות להודעות כתובות',
+    'settings.speakRepliesUnsupported': 'הדפדפן הזה לא תומך בהקראה',
+    'settings.record': 'הקלטת שיחות',
+    'settings.recordHint': 'הורדת השמע בסיום השיחה',
+    'settings.recordUnsupported': 'הדפדפן הזה לא תומך בהקלטה',
+    'settings.recordLayoutHint': 'את/ה בערוץ השמאלי, העוזר בימני, או שניכם יחד',
+    'settings.recordLayoutSplit': 'ערוצים נפרדים',
+    'settings.recordLayoutMixed': 'משולב',
+    'settings.devices': 'התקני שמע',
+    'settings.microphone': 'מיקרופון',
+    'settings.speaker': 'רמקול',
+    'settings.microphoneNumber': 'מיקרופון {number}',
+    'settings.speakerNumber': 'רמקול {number}',
+    'settings.systemDefault': 'ברירת המחדל של המערכת',
+    'settings.unavailableDevice': 'התקן לא זמין',
+    'settings.outputUnsupported': 'הדפדפן הזה לא תומך בבחירת התקן פלט',
+    'diagnostics.title': 'אבחון השמעה',
+    'diagnostics.unavailable': 'זמין במהלך שיחה קולית',
+    'diagnostics.underruns': 'התרוקנויות מאגר',
+    'diagnostics.averageBuffered': 'ממוצע במאגר',
+    'diagnostics.currentBuffered': 'כעת במאגר',
+    'diagnostics.targetLatency': 'השהיית יעד',
+    'diagnostics.milliseconds': '{value} אלפיות שנייה',
+    'error.title': 'משהו השתבש',
+    'error.retry': 'ניסיון נוסף',
+  },
+  hi: {
+    'status.idle': 'शुरू करने के लिए टैप करें',
+    'status.connecting': 'कनेक्ट हो रहा है...',
+    'status.reconnecting': 'फिर से कनेक्ट हो रहा है...',
+    'status.listening': 'सुन रहा है...',
+    'status.thinking': 'सोच रहा है...',
+    'status.speaking': 'बोल रहा है...',
+    'status.error': 'कोई त्रुटि हुई',
+    'transcript.title': 'ट्रांसक्रिप्ट',
+    'transcript.empty': 'आपकी बातचीत यहाँ दिखाई देगी',
+    'transcript.newConversation': 'नई बातचीत',
+    'transcript.export': 'निर्यात करें',
+    'transcript.interrupted': 'बीच में रोका गया',
+    'transcript.typed': 'टाइप किया गया',
+    'transcript.replay': 'फिर से चलाएँ (नवीनतम के लिए R दबाएँ)',
+    'transcript.stopReplay': 'रीप्ले रोकें',
+    'transcript.hidden': 'ट्रांसक्रिप्ट छिपा है -- सेटिंग्स में चालू करें',
+    'export.markdown': 'Markdown',
+    'export.json': 'JSON',
+    'export.txt': 'सादा टेक्स्ट',
+    'export.srt': 'SubRip (SRT)',
+    'export.vtt': 'WebVTT',
+    'composer.placeholder': 'संदेश लिखें',
+    'composer.waiting': 'जवाब की प्रतीक्षा...',
+    'composer.send': 'भेजें',
+    'composer.label': 'संदेश',
+    'composer.noReply': 'एजेंट ने जवाब नहीं दिया',
+    'session.releaseToSend': 'भेजने के लिए छोड़ें',
+    'session.holdToTalk': 'बोलने के लिए स्पेस या बटन दबाए रखें',
+    'session.end': 'सत्र समाप्त करें',
+    'session.muted': 'माइक्रोफ़ोन म्यूट है',
+    'session.mute': 'म्यूट करें',
+    'session.unmute': 'अनम्यूट करें',
+    'header.sampleData': 'नमूना डेटा',
+    'agent.choose': 'वॉइस एजेंट चुनें',
+    'agent.switchEndsSession': 'एजेंट बदलने से मौजूदा सत्र समाप्त हो जाता है',
+    'agent.voice': 'आवाज़: {voice}',
+    'agent.none': 'कोई वॉइस एजेंट कॉन्फ़िगर नहीं है',
+    'agent.noneHint': 'workflow_state.json या NEXT_PUBLIC_VOICE_AGENTS में एक वॉइस एजेंट जोड़ें, फिर पेज को रीलोड करें।',
+    'recording.title': 'सत्र रिकॉर्डिंग',
+    'recording.dismiss': 'बंद करें',
+    'recording.converting': 'बदला जा रहा है...',
+    'recording.captions': 'कैप्शन (VTT)',
+    'recording.wavFailed': 'WAV में बदलना विफल रहा',
+    'history.viewing': 'सहेजी गई बातचीत देख रहे हैं:',
+    'history.backToLive': 'लाइव पर लौटें',
+    'history.title': 'इतिहास',
+    'history.search': 'बातचीत खोजें',
+    'history.past': 'पिछली बातचीत',
+    'history.matches': '{total} में से {count}',
+    'history.empty': 'बातचीत यहाँ अपने आप सहेजी जाती है',
+    'history.noMatches': 'कोई मेल खाती बातचीत नहीं',
+    'history.live': 'लाइव',
+    'history.untitled': 'बिना शीर्षक की बातचीत',
+    'history.turns': { one: '{count} बारी', other: '{count} बारियाँ' },
+    'history.durationMinutes': '{minutes} मि {seconds} से',
+    'history.durationSeconds': '{seconds} से',
+    'history.rename': 'नाम बदलें',
+    'history.delete': 'हटाएँ',
+    'history.confirmDelete': 'बातचीत हटाएँ',
+    'history.cancel': 'रद्द करें',
+    'settings.title': 'सेटिंग्स',
+    'settings.showTranscript': 'ट्रांसक्रिप्ट दिखाएँ',
+    'settings.showTranscriptHint': 'बातचीत का टेक्स्ट नीचे दिखाएँ',
+    'settings.language': 'भाषा',
+    'settings.languageHint': 'एजेंट को भेजी जाती है और इंटरफ़ेस में उपयोग होती है',
+    'settings.languageDefault': 'एजेंट डिफ़ॉल्ट ({language})',
+    'settings.close': 'बंद करें',
+    'settings.micMode': 'माइक्रोफ़ोन मोड',
+    'settings.micModeOpen': 'खुला माइक',
+    'settings.micModePushToTalk': 'दबाकर बोलें',
+    'settings.micModeOpenHint': 'सत्र खुला रहने तक ऑडियो भेजा जाता है',
+    'settings.micModePushToTalkHint': 'बोलने के लिए स्पेस या माइक बटन दबाए रखें',
+    'settings.vad': 'चुप्पी हटाएँ',
+    'settings.vadHint': 'केवल तब ऑडियो भेजें जब आप बोल रहे हों',
+    'settings.vadSensitivity': 'वाणी पहचान संवेदनशीलता',
+    'settings.sensitivityLow': 'कम',
+    'settings.sensitivityMedium': 'मध्यम',
+    'settings.sensitivityHigh': 'अधिक',
+    'settings.volume': 'सहायक का वॉल्यूम',
+    'settings.ducking': 'बोलते समय धीमा करें',
+    'settings.duckingHint': 'जब आप बीच में बोलें तो सहायक की आवाज़ कम करें',
+    'settings.speakReplies': 'टाइप किए गए जवाब बोलें',
+    'settings.speakRepliesHint': 'टाइप किए गए संदेशों के जवाब ज़ोर से पढ़ें',
+    'settings.speakRepliesUnsupported': 'इस ब्राउज़र में वाक् संश्लेषण समर्थित नहीं है',
+    'settings.record': 'सत्र रिकॉर्ड करें',
+    'settings.recordHint': 'सत्र समाप्त होने पर ऑडियो डाउनलोड करें',
+    'settings.recordUnsupported': 'इस ब्राउज़र में रिकॉर्डिंग समर्थित नहीं है',
+    'settings.recordLayoutHint': 'आप बाएँ चैनल पर, सहायक दाएँ पर, या दोनों एक साथ',
+    'settings.recordLayoutSplit': 'अलग चैनल',
+    'settings.recordLayoutMixed': 'मिश्रित',
+    'settings.devices': 'ऑडियो डिवाइस',
+    'settings.microphone': 'माइक्रोफ़ोन',
+    'settings.speaker': 'स्पीकर',
+    'settings.microphoneNumber': 'माइक्रोफ़ोन {number}',
+    'settings.speakerNumber': 'स्पीकर {number}',
+    'settings.systemDefault': 'सिस्टम डिफ़ॉल्ट',
+    'settings.unavailableDevice': 'अनुपलब्ध डिवाइस',
+    'settings.outputUnsupported': 'इस ब्राउज़र में आउटपुट चुनना समर्थित नहीं है',
+    'diagnostics.title': 'प्लेबैक निदान',
+    'diagnostics.unavailable': 'वॉइस सत्र के दौरान उपलब्ध',
+    'diagnostics.underruns': 'बफ़र खाली होना',
+    'diagnostics.averageBuffered': 'औसत बफ़र',
+    'diagnostics.currentBuffered': 'अभी बफ़र',
+    'diagnostics.targetLatency': 'लक्ष्य विलंबता',
+    'diagnostics.milliseconds': '{value} ms',
+    'error.title': 'कुछ गलत हो गया',
+    'error.retry': 'फिर से कोशिश करें',
+  },
+  ja: {
+    'status.idle': 'タップして開始',
+    'status.connecting': '接続中...',
+    'status.reconnecting': '再接続中...',
+    'status.listening': '聞き取り中...',
+    'status.thinking': '考え中...',
+    'status.speaking': '話しています...',
+    'status.error': 'エラーが発生しました',
+    'transcript.title': '文字起こし',
+    'transcript.empty': '会話はここに表示されます',
+    'transcript.newConversation': '新しい会話',
+    'transcript.export': 'エクスポート',
+    'transcript.interrupted': '中断',
+    'transcript.typed': '入力',
+    'transcript.replay': '再生（最新は R キー）',
+    'transcript.stopReplay': '再生を停止',
+    'transcript.hidden': '文字起こしは非表示です -- 設定で有効にできます',
+    'export.markdown': 'Markdown',
+    'export.json': 'JSON',
+    'export.txt': 'プレーンテキスト',
+    'export.srt': 'SubRip (SRT)',
+    'export.vtt': 'WebVTT',
+    'composer.placeholder': 'メッセージを入力',
+    'composer.waiting': '返信を待っています...',
+    'composer.send': '送信',
+    'composer.label': 'メッセージ',
+    'composer.noReply': 'エージェントから応答がありませんでした',
+    'session.releaseToSend': '離すと送信',
+    'session.holdToTalk': 'スペースキーかボタンを押している間話せます',
+    'session.end': 'セッションを終了',
+    'session.muted': 'マイクはミュート中',
+    'session.mute': 'ミュート',
+    'session.unmute': 'ミュート解除',
+    'header.sampleData': 'サンプルデータ',
+    'agent.choose': '音声エージェントを選択',
+    'agent.switchEndsSession': 'エージェントを切り替えると現在のセッションは終了します',
+    'agent.voice': '音声: {voice}',
+    'agent.none': '音声エージェントが設定されていません',
+    'agent.noneHint': 'workflow_state.json または NEXT_PUBLIC_VOICE_AGENTS に音声エージェントを追加してから再読み込みしてください。',
+    'recording.title': 'セッションの録音',
+    'recording.dismiss': '閉じる',
+    'recording.converting': '変換中...',
+    'recording.captions': '字幕（VTT）',
+    'recording.wavFailed': 'WAV への変換に失敗しました',
+    'history.viewing': '保存した会話を表示中:',
+    'history.backToLive': 'ライブに戻る',
+    'history.title': '履歴',
+    'history.search': '会話を検索',
+    'history.past': '過去の会話',
+    'history.matches': '{total} 件中 {count} 件',
+    'history.empty': '会話はここに自動で保存されます',
+    'history.noMatches': '一致する会話はありません',
+    'history.live': 'ライブ',
+    'history.untitled': '無題の会話',
+    'history.turns': { other: '{count} ターン' },
+    'history.durationMinutes': '{minutes}分{seconds}秒',
+    'history.durationSeconds': '{seconds}秒',
+    'history.rename': '名前を変更',
+    'history.delete': '削除',
+    'history.confirmDelete': '会話を削除',
+    'history.cancel': 'キャンセル',
+    'settings.title': '設定',
+    'settings.showTranscript': '文字起こしを表示',
+    'settings.showTranscriptHint': '会話のテキストを下に表示します',
+    'settings.language': '言語',
+    'settings.languageHint': 'エージェントに送信され、画面表示にも使われます',
+    'settings.languageDefault': 'エージェントの既定（{language}）',
+    'settings.close': '閉じる',
+    'settings.micMode': 'マイクモード',
+    'settings.micModeOpen': 'オープンマイク',
+    'settings.micModePushToTalk': 'プッシュトゥトーク',
+    'settings.micModeOpenHint': 'セッション中は常に音声を送信します',
+    'settings.micModePushToTalkHint': 'スペースキーかマイクボタンを押している間話せます',
+    'settings.vad': '無音を除去',
+    'settings.vadHint': '話している間だけ音声を送信します',
+    'settings.vadSensitivity': '発話検出の感度',
+    'settings.sensitivityLow': '低',
+    'settings.sensitivityMedium': '中',
+    'settings.sensitivityHigh': '高',
+    'settings.volume': 'アシスタントの音量',
+    'settings.ducking': '発話中は音量を下げる',
+    'settings.duckingHint': 'アシスタントに話しかけると音量を下げます',
+    'settings.speakReplies': '入力への返信を読み上げ',
+    'settings.speakRepliesHint': '入力したメッセージへの返信を音声で読み上げます',
+    'settings.speakRepliesUnsupported': 'このブラウザは音声合成に対応していません',
+    'settings.record': 'セッションを録音',
+    'settings.recordHint': 'セッション終了時に音声をダウンロードします',
+    'settings.recordUnsupported': 'このブラウザは録音に対応していません',
+    'settings.recordLayoutHint': 'あなたを左チャンネル、アシスタントを右チャンネル、または両方をまとめて',
+    'settings.recordLayoutSplit': 'チャンネルを分ける',
+    'settings.recordLayoutMixed': 'ミックス',
+    'settings.devices': 'オーディオデバイス',
+    'settings.microphone': 'マイク',
+    'settings.speaker': 'スピーカー',
+    'settings.microphoneNumber': 'マイク {number}',
+    'settings.speakerNumber': 'スピーカー {number}',
+    'settings.systemDefault': 'システムの既定',
+    'settings.unavailableDevice': '利用できないデバイス',
+    'settings.outputUnsupported': 'このブラウザは出力先の選択に対応していません',
+    'diagnostics.title': '再生の診断',
+    'diagnostics.unavailable': '音声セッション中に利用できます',
+    'diagnostics.underruns': 'アンダーラン',
+    'diagnostics.averageBuffered': '平均バッファ',
+    'diagnostics.currentBuffered': '現在のバッファ',
+    'diagnostics.targetLatency': '目標レイテンシ',
+    'diagnostics.milliseconds': '{value} ms',
+    'error.title': '問題が発生しました',
+    'error.retry': '再試行',
+  },
+  zh: {
+    'status.idle': '点击开始',
+    'status.connecting': '正在连接...',
+    'status.reconnecting': '正在重新连接...',
+    'status.listening': '正在聆听...',
+    'status.thinking': '正在思考...',
+    'status.speaking': '正在说话...',
+    'status.error': '发生错误',
+    'transcript.title': '对话记录',
+    'transcript.empty': '你的对话将显示在这里',
+    'transcript.newConversation': '新对话',
+    'transcript.export': '导出',
+    'transcript.interrupted': '已打断',
+    'transcript.typed': '输入',
+    'transcript.replay': '重播（按 R 重播最新一条）',
+    'transcript.stopReplay': '停止重播',
+    'transcript.hidden': '对话记录已隐藏 -- 可在设置中开启',
+    'export.markdown': 'Markdown',
+    'export.json': 'JSON',
+    'export.txt': '纯文本',
+    'export.srt': 'SubRip (SRT)',
+    'export.vtt': 'WebVTT',
+    'composer.placeholder': '输入消息',
+    'composer.waiting': '正在等待回复...',
+    'composer.send': '发送',
+    'composer.label': '消息',
+    'composer.noReply': '智能体没有回复',
+    'session.releaseToSend': '松开即发送',
+    'session.holdToTalk': '按住空格键或按钮说话',
+    'session.end': '结束会话',
+    'session.muted': '麦克风已静音',
+    'session.mute': '静音',
+    'session.unmute': '取消静音',
+    'header.sampleData': '示例数据',
+    'agent.choose': '选择语音助手',
+    'agent.switchEndsSession': '切换助手会结束当前会话',
+    'agent.voice': '声音：{voice}',
+    'agent.none': '尚未配置语音助手',
+    'agent.noneHint': '请在 workflow_state.json 或 NEXT_PUBLIC_VOICE_AGENTS 中添加语音助手，然后重新加载。',
+    'recording.title': '会话录音',
+    'recording.dismiss': '关闭',
+    'recording.converting': '正在转换...',
+    'recording.captions': '字幕（VTT）',
+    'recording.wavFailed': 'WAV 转换失败',
+    'history.viewing': '正在查看已保存的对话：',
+    'history.backToLive': '返回实时会话',
+    'history.title': '历史记录',
+    'history.search': '搜索对话',
+    'history.past': '以往对话',
+    'history.matches': '{count} / {total}',
+    'history.empty': '对话会自动保存在这里',
+    'history.noMatches': '没有匹配的对话',
+    'history.live': '实时',
+    'history.untitled': '未命名对话',
+    'history.turns': { other: '{count} 轮' },
+    'history.durationMinutes': '{minutes}分{seconds}秒',
+    'history.durationSeconds': '{seconds}秒',
+    'history.rename': '重命名',
+    'history.delete': '删除',
+    'history.confirmDelete': '删除对话',
+    'history.cancel': '取消',
+    'settings.title': '设置',
+    'settings.showTranscript': '显示对话记录',
+    'settings.showTranscriptHint': '在下方显示对话文字',
+    'settings.language': '语言',
+    'settings.languageHint': '发送给助手并用于界面',
+    'settings.languageDefault': '助手默认（{language}）',
+    'settings.close': '关闭',
+    'settings.micMode': '麦克风模式',
+    'settings.micModeOpen': '常开麦克风',
+    'settings.micModePushToTalk': '按住说话',
+    'settings.micModeOpenHint': '会话开启期间持续发送音频',
+    'settings.micModePushToTalkHint': '按住空格键或麦克风按钮说话',
+    'settings.vad': '过滤静音',
+    'settings.vadHint': '仅在你说话时发送音频',
+    'settings.vadSensitivity': '语音检测灵敏度',
+    'settings.sensitivityLow': '低',
+    'settings.sensitivityMedium': '中',
+    'settings.sensitivityHigh': '高',
+    'settings.volume': '助手音量',
+    'settings.ducking': '说话时降低音量',
+    'settings.duckingHint': '你打断助手时降低其音量',
+    'settings.speakReplies': '朗读文字回复',
+    'settings.speakRepliesHint': '大声朗读对文字消息的回复',
+    'settings.speakRepliesUnsupported': '此浏览器不支持语音合成',
+    'settings.record': '录制会话',
+    'settings.recordHint': '会话结束时下载音频',
+    'settings.recordUnsupported': '此浏览器不支持录音',
+    'settings.recordLayoutHint': '你在左声道、助手在右声道，或两者混合',
+    'settings.recordLayoutSplit': '分离声道',
+    'settings.recordLayoutMixed': '混合',
+    'settings.devices': '音频设备',
+    'settings.microphone': '麦克风',
+    'settings.speaker': '扬声器',
+    'settings.microphoneNumber': '麦克风 {number}',
+    'settings.speakerNumber': '扬声器 {number}',
+    'settings.systemDefault': '系统默认',
+    'settings.unavailableDevice': '设备不可用',
+    'settings.outputUnsupported': '此浏览器不支持选择输出设备',
+    'diagnostics.title': '播放诊断',
+    'diagnostics.unavailable': '语音会话期间可用',
+    'diagnostics.underruns': '欠载次数',
+    'diagnostics.averageBuffered': '平均缓冲',
+    'diagnostics.currentBuffered': '当前缓冲',
+    'diagnostics.targetLatency': '目标延迟',
+    'diagnostics.milliseconds': '{value} 毫秒',
+    'error.title': '出了点问题',
+    'error.retry': '重试',
+  },
+}
+
+// ---------------------------------------------------------------------------
+// Lookup
+// ---------------------------------------------------------------------------
+
+/** Match a BCP 47 tag ("pt-BR") or English name ("Portuguese"); null if unknown. */
+export function resolveLanguage(value: string | null | undefined): Language | null {
+  if (!value) return null
+  const normalized = value.trim().toLowerCase()
+  const primary = normalized.split(/[-_]/)[0]
+  return LANGUAGES.find(l => l.code === primary || l.name.toLowerCase() === normalized) || null
+}
+
+export type Translator = (key: MessageKey, params?: Record<string, string>) => string
+
+export function createTranslator(language: string | null | undefined): Translator {
+  const code = resolveLanguage(language)?.code || DEFAULT_LANGUAGE.code
+  const messages: Messages = MESSAGES[code] || EN
+  const pluralRules = new Intl.PluralRules(code)
+  return (key, params) => {
+    const message = messages[key] ?? EN[key]
+    const template = typeof message === 'string'
+      ? message
+      : message[pluralRules.select(Number(params?.count))] ?? message.other
+    if (!params) return template
+    return template.replace(/\{(\w+)\}/g, (match, name) => params[name] ?? match)
+  }
+}
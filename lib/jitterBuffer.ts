@@ -0,0 +1,222 @@
+'use client'
+
+/**
+ * Jitter Buffer Utility
+ *
+ * Adaptive buffer in front of PlaybackQueue for streamed assistant audio.
+ * Chunks are held until `targetLatencyMs` of audio is available (or the wait
+ * times out), then released back to back. When the queue runs dry mid-turn
+ * the buffer re-primes, and the first resumed chunk is crossfaded from the
+ * tail of the last audio heard so the gap does not click.
+ *
+ * The target grows after each underrun (up to `maxLatencyMs`) and relaxes
+ * back towards the configured value once playback has been stable.
+ *
+ * @example
+ * ```ts
+ * const jitter = new JitterBuffer(queue, { targetLatencyMs: 120 })
+ * jitter.push(samples, 24000)
+ * jitter.getStats() // { underruns, averageBufferedMs, ... }
+ * ```
+ */
+
+import { PlaybackQueue, FlushResult } from '@/lib/playbackQueue'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface JitterBufferOptions {
+  /** Audio to accumulate before starting (or resuming) playback */
+  targetLatencyMs?: number
+  /** Ceiling for the adaptive target */
+  maxLatencyMs?: number
+  /** Crossfade applied when resuming after an underrun */
+  crossfadeMs?: number
+  /** Audio arriving this soon after a drain counts as an underrun, not a new turn */
+  underrunWindowMs?: number
+  /** Called when all buffered and scheduled audio has played */
+  onDrain?: () => void
+}
+
+export interface JitterBufferStats {
+  underruns: number
+  /** Running average of buffered audio, sampled on every incoming chunk */
+  averageBufferedMs: number
+  currentBufferedMs: number
+  targetLatencyMs: number
+}
+
+interface PendingChunk {
+  samples: Float32Array
+  sampleRate: number
+}
+
+const DEFAULTS = {
+  targetLatencyMs: 120,
+  maxLatencyMs: 400,
+  crossfadeMs: 10,
+  underrunWindowMs: 750,
+}
+
+// Stable chunks needed before the adaptive target steps back down
+const RELAX_AFTER_CHUNKS = 50
+
+// ---------------------------------------------------------------------------
+// Jitter buffer
+// ---------------------------------------------------------------------------
+
+export class JitterBuffer {
+  private readonly queue: PlaybackQueue
+  private readonly baseLatencyMs: number
+  private readonly maxLatencyMs: number
+  private readonly crossfadeMs: number
+  private readonly underrunWindowMs: number
+  private readonly onDrain?: () => void
+
+  private pending: PendingChunk[] = []
+  private priming = true
+  private primeTimer: ReturnType<typeof setTimeout> | null = null
+  private drainedAt: number | null = null
+  private crossfadeNext = false
+  private lastTail: Float32Array | null = null
+  private lastTailRate = 0
+  private targetLatencyMs: number
+  private stableChunks = 0
+
+  private underruns = 0
+  private statCount = 0
+  private statBufferedMs = 0
+
+  constructor(queue: PlaybackQueue, options: JitterBufferOptions = {}) {
+    this.queue = queue
+    this.baseLatencyMs = options.targetLatencyMs ?? DEFAULTS.targetLatencyMs
+    this.maxLatencyMs = Math.max(this.baseLatencyMs, options.maxLatencyMs ?? DEFAULTS.maxLatencyMs)
+    this.crossfadeMs = options.crossfadeMs ?? DEFAULTS.crossfadeMs
+    this.underrunWindowMs = options.underrunWindowMs ?? DEFAULTS.underrunWindowMs
+    this.onDrain = options.onDrain
+    this.targetLatencyMs = this.baseLatencyMs
+  }
+
+  push(samples: Float32Array, sampleRate: number): void {
+    if (samples.length === 0) return
+
+    if (this.drainedAt !== null) {
+      if (Date.now() - this.drainedAt <= this.underrunWindowMs) {
+        this.underruns++
+        this.crossfadeNext = true
+        this.stableChunks = 0
+        this.targetLatencyMs = Math.min(this.maxLatencyMs, this.targetLatencyMs * 1.5)
+      }
+      this.drainedAt = null
+    }
+
+    const chunk = { samples, sampleRate }
+    if (this.priming) {
+      this.pending.push(chunk)
+      if (this.pendingMs() >= this.targetLatencyMs) {
+        this.release()
+      } else if (!this.primeTimer) {
+        // Short replies may never reach the target; don't hold them forever
+        this.primeTimer = setTimeout(() => this.release(), this.targetLatencyMs)
+      }
+    } else {
+      this.schedule(chunk)
+      if (++this.stableChunks >= RELAX_AFTER_CHUNKS && this.targetLatencyMs > this.baseLatencyMs) {
+        this.targetLatencyMs = Math.max(this.baseLatencyMs, this.targetLatencyMs / 1.5)
+        this.stableChunks = 0
+      }
+    }
+
+    this.statCount++
+    this.statBufferedMs += this.currentBufferedMs()
+  }
+
+  /** Wire to PlaybackQueue's onDrain. */
+  handleDrain(): void {
+    if (this.pending.length > 0) return
+    this.priming = true
+    this.drainedAt = Date.now()
+    this.onDrain?.()
+  }
+
+  /** Drop held and scheduled audio; the result includes audio still held here. */
+  flush(): FlushResult {
+    const heldMs = this.pendingMs()
+    this.clearTimer()
+    this.pending = []
+    this.priming = true
+    this.drainedAt = null
+    this.crossfadeNext = false
+    this.lastTail = null
+    const result = this.queue.flush()
+    return { playedMs: result.playedMs, totalMs: result.totalMs + Math.round(heldMs) }
+  }
+
+  get isPlaying(): boolean {
+    return this.queue.isPlaying || this.pending.length > 0
+  }
+
+  getStats(): JitterBufferStats {
+    return {
+      underruns: this.underruns,
+      averageBufferedMs: this.statCount > 0 ? Math.round(this.statBufferedMs / this.statCount) : 0,
+      currentBufferedMs: Math.round(this.currentBufferedMs()),
+      targetLatencyMs: Math.round(this.targetLatencyMs),
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Internals
+  // -------------------------------------------------------------------------
+
+  private release(): void {
+    this.clearTimer()
+    this.priming = false
+    const chunks = this.pending
+    this.pending = []
+    chunks.forEach(chunk => this.schedule(chunk))
+  }
+
+  private schedule(chunk: PendingChunk): void {
+    let { samples } = chunk
+    if (this.crossfadeNext) {
+      samples = this.crossfadeFromTail(samples, chunk.sampleRate)
+      this.crossfadeNext = false
+    }
+
+    const tailLength = Math.min(samples.length, Math.round(chunk.sampleRate * this.crossfadeMs / 1000))
+    this.lastTail = samples.slice(samples.length - tailLength)
+    this.lastTailRate = chunk.sampleRate
+
+    this.queue.enqueue(samples, chunk.sampleRate)
+  }
+
+  // Blends the last audio heard (fading out) into the resumed chunk (fading in)
+  private crossfadeFromTail(samples: Float32Array, sampleRate: number): Float32Array {
+    const out = samples.slice()
+    const tail = this.lastTail && this.lastTailRate === sampleRate ? this.lastTail : null
+    const length = Math.min(out.length, Math.round(sampleRate * this.crossfadeMs / 1000))
+    for (let i = 0; i < length; i++) {
+      const fadeIn = (i + 1) / (length + 1)
+      const previous = tail && i < tail.length ? tail[i] : 0
+      out[i] = out[i] * fadeIn + previous * (1 - fadeIn)
+    }
+    return out
+  }
+
+  private pendingMs(): number {
+    return this.pending.reduce((ms, chunk) => ms + (chunk.samples.length / chunk.sampleRate) * 1000, 0)
+  }
+
+  private currentBufferedMs(): number {
+    return this.queue.bufferedMs + this.pendingMs()
+  }
+
+  private clearTimer(): void {
+    if (this.primeTimer) {
+      clearTimeout(this.primeTimer)
+      this.primeTimer = null
+    }
+  }
+}
@@ -0,0 +1,125 @@
+'use client'
+
+/**
+ * Output Gain Utility
+ *
+ * Gain stage between assistant playback and the speakers. Applies the user's
+ * volume and, when ducking is enabled, temporarily lowers the assistant while
+ * the microphone picks up speech so the user can hear themselves talk over
+ * it before barge-in (if any) cuts the turn off.
+ *
+ * @example
+ * ```ts
+ * import { OutputGain } from '@/lib/outputGain'
+ *
+ * const gain = new OutputGain(ctx, { volume: 0.8, ducking: true })
+ * const queue = new PlaybackQueue(ctx, { destination: gain.node })
+ * // per capture frame:
+ * gain.update(frame.rms, 40)
+ * ```
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface OutputGainOptions {
+  /** Playback volume, 0..1 (default 1) */
+  volume?: number
+  /** Lower playback while the user is speaking (default false) */
+  ducking?: boolean
+  /** Fraction of the volume kept while ducked (default 0.3) */
+  duckLevel?: number
+  /** RMS level (0..1) treated as the user speaking */
+  threshold?: number
+  /** Quiet time before the volume is restored */
+  releaseMs?: number
+}
+
+const DEFAULT_DUCK_LEVEL = 0.3
+const DEFAULT_THRESHOLD = 0.03
+const DEFAULT_RELEASE_MS = 300
+// Time constants for setTargetAtTime; short attack so the duck is audible at once
+const ATTACK_SECONDS = 0.03
+const RELEASE_SECONDS = 0.15
+
+// ---------------------------------------------------------------------------
+// Gain stage
+// ---------------------------------------------------------------------------
+
+export class OutputGain {
+  readonly node: GainNode
+  private volume: number
+  private ducking: boolean
+  private readonly duckLevel: number
+  private readonly threshold: number
+  private readonly releaseMs: number
+  private ducked = false
+  private quietMs = 0
+
+  constructor(context: AudioContext, options: OutputGainOptions = {}) {
+    this.volume = clampVolume(options.volume ?? 1)
+    this.ducking = options.ducking ?? false
+    this.duckLevel = options.duckLevel ?? DEFAULT_DUCK_LEVEL
+    this.threshold = options.threshold ?? DEFAULT_THRESHOLD
+    this.releaseMs = options.releaseMs ?? DEFAULT_RELEASE_MS
+
+    this.node = context.createGain()
+    this.node.gain.value = this.volume
+    this.node.connect(context.destination)
+  }
+
+  setVolume(volume: number): void {
+    this.volume = clampVolume(volume)
+    this.apply(RELEASE_SECONDS)
+  }
+
+  setDucking(enabled: boolean): void {
+    this.ducking = enabled
+    if (!enabled && this.ducked) this.release()
+  }
+
+  /** Feed one capture frame's RMS level. */
+  update(rms: number, frameMs: number): void {
+    if (!this.ducking) return
+
+    if (rms >= this.threshold) {
+      this.quietMs = 0
+      if (!this.ducked) {
+        this.ducked = true
+        this.apply(ATTACK_SECONDS)
+      }
+      return
+    }
+
+    if (!this.ducked) return
+    this.quietMs += frameMs
+    if (this.quietMs >= this.releaseMs) this.release()
+  }
+
+  /** Restore full volume immediately, e.g. when playback is flushed. */
+  reset(): void {
+    if (this.ducked) this.release()
+  }
+
+  disconnect(): void {
+    this.node.disconnect()
+  }
+
+  private release(): void {
+    this.ducked = false
+    this.quietMs = 0
+    this.apply(RELEASE_SECONDS)
+  }
+
+  private apply(timeConstant: number): void {
+    const target = this.ducked ? this.volume * this.duckLevel : this.volume
+    const { gain, context } = this.node
+    gain.cancelScheduledValues(context.currentTime)
+    gain.setTargetAtTime(target, context.currentTime, timeConstant)
+  }
+}
+
+function clampVolume(volume: number): number {
+  return Number.isFinite(volume) ? Math.min(1, Math.max(0, volume)) : 1
+}
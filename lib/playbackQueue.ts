@@ -0,0 +1,154 @@
+'use client'
+
+/**
+ * Playback Queue Utility
+ *
+ * Owns every AudioBufferSourceNode scheduled for assistant speech so playback
+ * can actually be stopped (server `clear`, barge-in, ending the session)
+ * instead of only resetting a time pointer while queued buffers keep playing.
+ * The queue reports when it drains, which is what drives the
+ * `speaking` → `listening` transition.
+ *
+ * @example
+ * ```ts
+ * import { PlaybackQueue } from '@/lib/playbackQueue'
+ *
+ * const queue = new PlaybackQueue(new AudioContext(), {
+ *   onDrain: () => setVoiceState('listening'),
+ * })
+ * queue.enqueue(float32Samples, 24000)
+ * const { playedMs } = queue.flush()
+ * ```
+ */
+
+import { StreamResampler } from '@/lib/resampler'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface PlaybackQueueOptions {
+  /** Node to play into (default: the context destination) */
+  destination?: AudioNode
+  /** Called once all scheduled audio has finished playing */
+  onDrain?: () => void
+}
+
+export interface FlushResult {
+  /** Audio of the current turn that was heard before the flush */
+  playedMs: number
+  /** Audio of the current turn that had been scheduled */
+  totalMs: number
+}
+
+// ---------------------------------------------------------------------------
+// Queue
+// ---------------------------------------------------------------------------
+
+export class PlaybackQueue {
+  readonly context: AudioContext
+  private readonly destination: AudioNode
+  private readonly onDrain?: () => void
+  private readonly sources = new Set<AudioBufferSourceNode>()
+  private resampler: StreamResampler | null = null
+  private nextPlayTime = 0
+  private turnStart: number | null = null
+
+  constructor(context: AudioContext, options: PlaybackQueueOptions = {}) {
+    this.context = context
+    this.destination = options.destination || context.destination
+    this.onDrain = options.onDrain
+  }
+
+  /** Schedule mono samples recorded at `sampleRate` right after what is queued. */
+  enqueue(samples: Float32Array, sampleRate: number): void {
+    const ctx = this.context
+    if (ctx.state === 'closed') return
+
+    // Session audio arrives at the negotiated rate; the context runs at the
+    // device's native rate.
+    if (!this.resampler || this.resampler.fromRate !== sampleRate) {
+      this.resampler = new StreamResampler(sampleRate, ctx.sampleRate)
+    }
+    const float32 = this.resampler.process(samples)
+    if (float32.length === 0) return
+
+    const audioBuffer = ctx.createBuffer(1, float32.length, ctx.sampleRate)
+    audioBuffer.getChannelData(0).set(float32)
+
+    const source = ctx.createBufferSource()
+    source.buffer = audioBuffer
+    source.connect(this.destination)
+
+    const startTime = Math.max(ctx.currentTime, this.nextPlayTime)
+    source.start(startTime)
+    this.nextPlayTime = startTime + audioBuffer.duration
+    if (this.turnStart === null) this.turnStart = startTime
+    this.sources.add(source)
+
+    source.onended = () => {
+      this.sources.delete(source)
+      source.disconnect()
+      if (this.sources.size === 0) {
+        this.turnStart = null
+        this.nextPlayTime = 0
+        this.onDrain?.()
+      }
+    }
+  }
+
+  /**
+   * Stop and discard everything queued. Reports how much of the current turn
+   * was heard so callers can record where it was cut off.
+   */
+  flush(): FlushResult {
+    const result = this.progress()
+    this.sources.forEach(source => {
+      source.onended = null
+      try {
+        source.stop()
+        source.disconnect()
+      } catch (_err) {
+        // Source already stopped or context closed
+      }
+    })
+    this.sources.clear()
+    this.nextPlayTime = 0
+    this.turnStart = null
+    this.resampler?.reset()
+    return result
+  }
+
+  /** Flush and close the underlying context; the queue is unusable afterwards. */
+  stop(): void {
+    this.flush()
+    if (this.context.state !== 'closed') {
+      this.context.close().catch(() => {})
+    }
+  }
+
+  pause(): Promise<void> {
+    return this.context.state === 'running' ? this.context.suspend() : Promise.resolve()
+  }
+
+  resume(): Promise<void> {
+    return this.context.state === 'suspended' ? this.context.resume() : Promise.resolve()
+  }
+
+  get isPlaying(): boolean {
+    return this.sources.size > 0
+  }
+
+  /** Scheduled audio not yet played, in milliseconds. */
+  get bufferedMs(): number {
+    if (this.sources.size === 0) return 0
+    return Math.max(0, (this.nextPlayTime - this.context.currentTime) * 1000)
+  }
+
+  private progress(): FlushResult {
+    if (this.turnStart === null) return { playedMs: 0, totalMs: 0 }
+    const totalSec = Math.max(0, this.nextPlayTime - this.turnStart)
+    const playedSec = Math.min(totalSec, Math.max(0, this.context.currentTime - this.turnStart))
+    return { playedMs: Math.round(playedSec * 1000), totalMs: Math.round(totalSec * 1000) }
+  }
+}
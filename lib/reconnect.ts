@@ -0,0 +1,48 @@
+/**
+ * Reconnect Policy Utility
+ *
+ * Exponential backoff with jitter for re-establishing dropped voice session
+ * sockets. Kept separate from the session code so the schedule can be tuned
+ * (or disabled with `maxAttempts: 0`) without touching connection handling.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ReconnectPolicy {
+  /** Attempts before giving up; 0 disables reconnection */
+  maxAttempts: number
+  /** Delay before the first attempt */
+  baseDelayMs: number
+  /** Upper bound for any single delay */
+  maxDelayMs: number
+  /** Fraction of the delay randomised, 0..1 (0 = deterministic) */
+  jitter: number
+}
+
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  maxAttempts: 5,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  jitter: 0.3,
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Delay before reconnect attempt `attempt` (1-based). Doubles each attempt up
+ * to `maxDelayMs`, then shaves off up to `jitter` of it so clients dropped by
+ * the same outage do not reconnect in lockstep.
+ */
+export function getReconnectDelay(attempt: number, policy: ReconnectPolicy = DEFAULT_RECONNECT_POLICY): number {
+  const exp = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, Math.max(0, attempt - 1)))
+  const jitter = Math.min(1, Math.max(0, policy.jitter))
+  return Math.round(exp * (1 - jitter * Math.random()))
+}
+
+export function shouldReconnect(attempt: number, policy: ReconnectPolicy = DEFAULT_RECONNECT_POLICY): boolean {
+  return attempt <= policy.maxAttempts
+}
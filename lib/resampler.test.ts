@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest'
+import { StreamResampler, resample, pcm16ToFloat32 } from '@/lib/resampler'
+import { WORKLET_RESAMPLER_SOURCE } from '@/lib/audioCapture'
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+function sine(frequency: number, sampleRate: number, seconds: number, amplitude = 1): Float32Array {
+  const samples = new Float32Array(Math.round(sampleRate * seconds))
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate)
+  }
+  return samples
+}
+
+function rms(samples: Float32Array): number {
+  let sum = 0
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i]
+  return Math.sqrt(sum / samples.length)
+}
+
+/** Skip the filter's start-up transient and the tail */
+function steady(samples: Float32Array): Float32Array {
+  const margin = Math.floor(samples.length / 10)
+  return samples.subarray(margin, samples.length - margin)
+}
+
+/** Amplitude and phase of `frequency` in `samples`, by correlation with a sine and cosine */
+function tone(samples: Float32Array, frequency: number, sampleRate: number): { amplitude: number; phase: number } {
+  let re = 0
+  let im = 0
+  for (let i = 0; i < samples.length; i++) {
+    re += samples[i] * Math.sin((2 * Math.PI * frequency * i) / sampleRate)
+    im += samples[i] * Math.cos((2 * Math.PI * frequency * i) / sampleRate)
+  }
+  return { amplitude: (2 * Math.hypot(re, im)) / samples.length, phase: Math.atan2(im, re) }
+}
+
+function inChunks(resampler: { process(input: Float32Array): Float32Array }, input: Float32Array, sizes: number[]): Float32Array {
+  const parts: Float32Array[] = []
+  for (let offset = 0, i = 0; offset < input.length; i++) {
+    const size = sizes[i % sizes.length]
+    parts.push(resampler.process(input.subarray(offset, offset + size)))
+    offset += size
+  }
+  const output = new Float32Array(parts.reduce((n, part) => n + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    output.set(part, offset)
+    offset += part.length
+  }
+  return output
+}
+
+function maxDifference(a: Float32Array, b: Float32Array): number {
+  let max = 0
+  for (let i = 0; i < a.length; i++) max = Math.max(max, Math.abs(a[i] - b[i]))
+  return max
+}
+
+const RATES: [number, number][] = [
+  [48000, 24000],
+  [44100, 24000],
+  [48000, 16000],
+  [24000, 48000],
+  [16000, 44100],
+]
+
+// ---------------------------------------------------------------------------
+// StreamResampler
+// ---------------------------------------------------------------------------
+
+describe('StreamResampler', () => {
+  it.each(RATES)('streams %i -> %i the same as a one-shot resample', (fromRate, toRate) => {
+    const input = sine(440, fromRate, 0.5)
+    const oneShot = resample(input, fromRate, toRate)
+    const streamed = inChunks(new StreamResampler(fromRate, toRate), input, [128, 1, 480, 37, 1024])
+    expect(streamed.length).toBe(oneShot.length)
+    // Only the rounding of the carried read position differs
+    expect(maxDifference(streamed, oneShot)).toBeLessThan(1e-6)
+  })
+
+  it.each(RATES)('produces the expected number of samples for %i -> %i', (fromRate, toRate) => {
+    const output = resample(sine(440, fromRate, 1), fromRate, toRate)
+    expect(Math.abs(output.length - toRate)).toBeLessThanOrEqual(Math.ceil(toRate / fromRate))
+  })
+
+  it.each(RATES)('keeps a 1 kHz sine at full amplitude and frequency for %i -> %i', (fromRate, toRate) => {
+    const output = steady(resample(sine(1000, fromRate, 0.5, 0.8), fromRate, toRate))
+    expect(tone(output, 1000, toRate).amplitude).toBeCloseTo(0.8, 1)
+    expect(rms(output)).toBeCloseTo(0.8 / Math.SQRT2, 1)
+  })
+
+  it('filters an 18 kHz sine instead of aliasing it when downsampling 48 kHz -> 24 kHz', () => {
+    const output = steady(resample(sine(18000, 48000, 0.5), 48000, 24000))
+    // Unfiltered, 18 kHz folds to 6 kHz at full amplitude (RMS 0.707)
+    expect(tone(output, 6000, 24000).amplitude).toBeLessThan(0.01)
+    expect(rms(output)).toBeLessThan(0.01)
+  })
+
+  it('filters content above the output Nyquist frequency when downsampling 48 kHz -> 16 kHz', () => {
+    const output = steady(resample(sine(12000, 48000, 0.5), 48000, 16000))
+    expect(rms(output)).toBeLessThan(0.01)
+  })
+
+  it('copies input unchanged when the rates match', () => {
+    const input = sine(440, 24000, 0.1)
+    const resampler = new StreamResampler(24000, 24000)
+    expect(resampler.isPassthrough).toBe(true)
+    const output = resampler.process(input)
+    expect(output).toEqual(input)
+    expect(output).not.toBe(input)
+  })
+
+  it('starts from silence again after reset', () => {
+    const input = sine(440, 48000, 0.1)
+    const resampler = new StreamResampler(48000, 24000)
+    const first = resampler.process(input)
+    resampler.process(sine(3000, 48000, 0.05))
+    resampler.reset()
+    expect(resampler.process(input)).toEqual(first)
+  })
+
+  it('rejects non-positive rates', () => {
+    expect(() => new StreamResampler(0, 24000)).toThrow()
+    expect(() => new StreamResampler(48000, -1)).toThrow()
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Worklet mirror
+// ---------------------------------------------------------------------------
+
+describe('worklet resampler', () => {
+  const LinearResampler = new Function(`${WORKLET_RESAMPLER_SOURCE}\nreturn LinearResampler`)()
+
+  it.each(RATES)('matches StreamResampler for %i -> %i', (fromRate, toRate) => {
+    const input = sine(18000 * (fromRate / 48000), fromRate, 0.25)
+    const worklet = new LinearResampler(fromRate, toRate)
+    const expected = inChunks(new StreamResampler(fromRate, toRate), input, [128])
+    const actual = inChunks({
+      process: chunk => {
+        const out: number[] = []
+        worklet.process(chunk, (sample: number) => out.push(sample))
+        return Float32Array.from(out)
+      },
+    }, input, [128])
+    expect(actual).toEqual(expected)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// pcm16ToFloat32
+// ---------------------------------------------------------------------------
+
+describe('pcm16ToFloat32', () => {
+  it('maps the PCM16 range onto [-1, 1]', () => {
+    expect(Array.from(pcm16ToFloat32(Int16Array.from([-32768, 0, 32767])))).toEqual([-1, 0, 1])
+  })
+})
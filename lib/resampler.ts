@@ -0,0 +1,175 @@
+/**
+ * Resampler Utility
+ *
+ * Pure TypeScript sample-rate conversion for mono Float32 audio. Browsers and
+ * USB headsets frequently ignore a requested capture rate, so the voice client
+ * captures at whatever rate the hardware provides and converts to the rate the
+ * voice session negotiated (and back again for playback).
+ *
+ * Linear interpolation is used throughout: it is cheap enough to run per frame
+ * and adequate for speech. When downsampling, a windowed-sinc low-pass filter
+ * runs first so content above the output's Nyquist frequency is removed
+ * instead of folding back into the speech band as aliasing.
+ *
+ * @example
+ * ```ts
+ * import { StreamResampler } from '@/lib/resampler'
+ *
+ * const resampler = new StreamResampler(48000, 24000)
+ * const out = resampler.process(frame) // call repeatedly; state carries over
+ * ```
+ */
+
+// ---------------------------------------------------------------------------
+// Anti-alias filter
+// ---------------------------------------------------------------------------
+
+/** Passband edge as a fraction of the output Nyquist frequency */
+const ANTI_ALIAS_CUTOFF = 0.9
+/** Filter taps per unit of decimation ratio, on each side of the centre tap */
+const ANTI_ALIAS_TAPS_PER_RATIO = 8
+
+/**
+ * Blackman-windowed sinc low-pass taps, normalised to unity gain at DC.
+ * @param cutoff - Cutoff frequency in cycles per sample (0..0.5)
+ * @param length - Number of taps (odd, so the filter has a centre tap)
+ */
+function designLowPass(cutoff: number, length: number): Float32Array {
+  const taps = new Float32Array(length)
+  const middle = (length - 1) / 2
+  let sum = 0
+  for (let n = 0; n < length; n++) {
+    const x = n - middle
+    const sinc = x === 0 ? 2 * cutoff : Math.sin(2 * Math.PI * cutoff * x) / (Math.PI * x)
+    const window = 0.42 - 0.5 * Math.cos((2 * Math.PI * n) / (length - 1)) + 0.08 * Math.cos((4 * Math.PI * n) / (length - 1))
+    taps[n] = sinc * window
+    sum += taps[n]
+  }
+  for (let n = 0; n < length; n++) taps[n] /= sum
+  return taps
+}
+
+/**
+ * Streaming FIR filter. Input history is kept twice over in a buffer of
+ * twice the tap count, so each output is one contiguous dot product.
+ */
+class FirFilter {
+  private readonly taps: Float32Array
+  private readonly history: Float32Array
+  private index = 0
+
+  constructor(taps: Float32Array) {
+    this.taps = taps
+    this.history = new Float32Array(taps.length * 2)
+  }
+
+  process(input: Float32Array): Float32Array {
+    const length = this.taps.length
+    const output = new Float32Array(input.length)
+    for (let i = 0; i < input.length; i++) {
+      this.history[this.index] = input[i]
+      this.history[this.index + length] = input[i]
+      // history[index + length - k] is the sample k steps back
+      let acc = 0
+      for (let k = 0; k < length; k++) acc += this.taps[k] * this.history[this.index + length - k]
+      output[i] = acc
+      this.index = (this.index + 1) % length
+    }
+    return output
+  }
+
+  reset(): void {
+    this.history.fill(0)
+    this.index = 0
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Streaming resampler
+// ---------------------------------------------------------------------------
+
+/**
+ * Stateful resampler for a continuous stream split into arbitrary chunks.
+ * The fractional read position and last input sample carry across calls, so
+ * chunk boundaries do not introduce clicks or drift.
+ */
+export class StreamResampler {
+  readonly fromRate: number
+  readonly toRate: number
+  private readonly step: number
+  private readonly filter: FirFilter | null
+  private position = 1
+  private lastSample = 0
+
+  constructor(fromRate: number, toRate: number) {
+    if (!(fromRate > 0) || !(toRate > 0)) {
+      throw new Error(`Invalid sample rates: ${fromRate} -> ${toRate}`)
+    }
+    this.fromRate = fromRate
+    this.toRate = toRate
+    this.step = fromRate / toRate
+    // Only downsampling can alias; the filter delays output by half its length
+    this.filter = toRate < fromRate
+      ? new FirFilter(designLowPass(
+        (ANTI_ALIAS_CUTOFF * toRate) / (2 * fromRate),
+        2 * Math.ceil(ANTI_ALIAS_TAPS_PER_RATIO * this.step) + 1
+      ))
+      : null
+  }
+
+  /** True when input and output rates match and `process` is a copy. */
+  get isPassthrough(): boolean {
+    return this.fromRate === this.toRate
+  }
+
+  process(input: Float32Array): Float32Array {
+    if (this.isPassthrough) return input.slice()
+    if (input.length === 0) return new Float32Array(0)
+    if (this.filter) input = this.filter.process(input)
+
+    // Positions index a virtual buffer of [lastSample, ...input]
+    const end = input.length
+    const capacity = Math.max(0, Math.ceil((end - this.position) / this.step) + 1)
+    const output = new Float32Array(capacity)
+
+    let written = 0
+    let pos = this.position
+    while (pos <= end && written < capacity) {
+      const i = Math.floor(pos)
+      const frac = pos - i
+      const a = i === 0 ? this.lastSample : input[i - 1]
+      const b = i < end ? input[i] : a
+      output[written++] = a + (b - a) * frac
+      pos += this.step
+    }
+
+    this.position = pos - end
+    this.lastSample = input[end - 1]
+    return written === capacity ? output : output.subarray(0, written)
+  }
+
+  /** Drop carried-over state, e.g. after a playback flush. */
+  reset(): void {
+    this.position = 1
+    this.lastSample = 0
+    this.filter?.reset()
+  }
+}
+
+// ---------------------------------------------------------------------------
+// One-shot helpers
+// ---------------------------------------------------------------------------
+
+/** Resample a complete buffer in one call. */
+export function resample(input: Float32Array, fromRate: number, toRate: number): Float32Array {
+  return new StreamResampler(fromRate, toRate).process(input)
+}
+
+/** Convert little-endian PCM16 samples to Float32 in [-1, 1]. */
+export function pcm16ToFloat32(pcm16: Int16Array): Float32Array {
+  const float32 = new Float32Array(pcm16.length)
+  for (let i = 0; i < pcm16.length; i++) {
+    float32[i] = pcm16[i] / (pcm16[i] < 0 ? 0x8000 : 0x7FFF)
+  }
+  return float32
+}
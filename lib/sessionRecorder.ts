@@ -0,0 +1,221 @@
+'use client'
+
+/**
+ * Session Recorder Utility
+ *
+ * Records a voice session — the user's microphone and the assistant's
+ * playback — with MediaRecorder. The two sources live in different
+ * AudioContexts, so the assistant side is bridged in through a
+ * MediaStreamAudioDestinationNode. In `split` layout the user is on the left
+ * channel and the assistant on the right; `mixed` puts both on both.
+ *
+ * Recordings carry their wall-clock start time so they line up with
+ * transcript entry timestamps (e.g. captions exported with the same
+ * `startedAt`).
+ *
+ * @example
+ * ```ts
+ * import { SessionRecorder, recordingToWav } from '@/lib/sessionRecorder'
+ *
+ * const recorder = new SessionRecorder(captureContext, { layout: 'split' })
+ * recorder.setMicrophone(micStream)
+ * recorder.setAssistant(playbackNode)
+ * recorder.start()
+ * const recording = await recorder.stop()
+ * const wav = await recordingToWav(recording)
+ * ```
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type RecordingLayout = 'mixed' | 'split'
+
+export interface SessionRecorderOptions {
+  /** Default 'split' (user left, assistant right) */
+  layout?: RecordingLayout
+}
+
+export interface SessionRecording {
+  blob: Blob
+  mimeType: string
+  /** Wall-clock time recording began; align transcript timestamps to this */
+  startedAt: number
+  durationMs: number
+  layout: RecordingLayout
+}
+
+const MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/ogg;codecs=opus', 'audio/mp4']
+
+// ---------------------------------------------------------------------------
+// Recorder
+// ---------------------------------------------------------------------------
+
+export function supportsSessionRecording(): boolean {
+  return typeof MediaRecorder !== 'undefined' && typeof AudioContext !== 'undefined'
+}
+
+export class SessionRecorder {
+  private readonly context: AudioContext
+  private readonly layout: RecordingLayout
+  private readonly merger: ChannelMergerNode
+  private readonly destination: MediaStreamAudioDestinationNode
+  private micSource: MediaStreamAudioSourceNode | null = null
+  private assistantBridge: MediaStreamAudioDestinationNode | null = null
+  private assistantNode: AudioNode | null = null
+  private assistantSource: MediaStreamAudioSourceNode | null = null
+  private recorder: MediaRecorder | null = null
+  private chunks: Blob[] = []
+  private startedAt = 0
+
+  constructor(context: AudioContext, options: SessionRecorderOptions = {}) {
+    this.context = context
+    this.layout = options.layout ?? 'split'
+    this.merger = context.createChannelMerger(2)
+    this.destination = context.createMediaStreamDestination()
+    this.merger.connect(this.destination)
+  }
+
+  /** (Re)attach the microphone, e.g. after switching input devices. */
+  setMicrophone(stream: MediaStream): void {
+    this.micSource?.disconnect()
+    this.micSource = this.context.createMediaStreamSource(stream)
+    this.route(this.micSource, 0)
+  }
+
+  /** Attach assistant playback; `node` may belong to another AudioContext. */
+  setAssistant(node: AudioNode): void {
+    if (this.assistantNode && this.assistantBridge) this.assistantNode.disconnect(this.assistantBridge)
+    this.assistantSource?.disconnect()
+
+    const bridge = (node.context as AudioContext).createMediaStreamDestination()
+    node.connect(bridge)
+    this.assistantNode = node
+    this.assistantBridge = bridge
+    this.assistantSource = this.context.createMediaStreamSource(bridge.stream)
+    this.route(this.assistantSource, 1)
+  }
+
+  start(): void {
+    if (this.recorder) return
+    const mimeType = MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type))
+    const recorder = new MediaRecorder(this.destination.stream, mimeType ? { mimeType } : undefined)
+    this.chunks = []
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) this.chunks.push(e.data)
+    }
+    // Periodic chunks so a crash mid-session still leaves most of the audio
+    recorder.start(1000)
+    this.recorder = recorder
+    this.startedAt = Date.now()
+  }
+
+  /** Finish recording and release the graph. Resolves null if nothing was recorded. */
+  stop(): Promise<SessionRecording | null> {
+    const recorder = this.recorder
+    this.recorder = null
+
+    return new Promise(resolve => {
+      const finish = () => {
+        this.disconnect()
+        const mimeType = recorder?.mimeType || this.chunks[0]?.type || 'audio/webm'
+        const blob = new Blob(this.chunks, { type: mimeType })
+        this.chunks = []
+        resolve(blob.size > 0
+          ? { blob, mimeType, startedAt: this.startedAt, durationMs: Date.now() - this.startedAt, layout: this.layout }
+          : null)
+      }
+
+      if (!recorder || recorder.state === 'inactive') {
+        finish()
+        return
+      }
+      recorder.onstop = finish
+      recorder.stop()
+    })
+  }
+
+  private route(source: AudioNode, channel: 0 | 1): void {
+    if (this.layout === 'split') {
+      source.connect(this.merger, 0, channel)
+    } else {
+      source.connect(this.merger, 0, 0)
+      source.connect(this.merger, 0, 1)
+    }
+  }
+
+  private disconnect(): void {
+    this.micSource?.disconnect()
+    this.assistantSource?.disconnect()
+    if (this.assistantNode && this.assistantBridge) {
+      try {
+        this.assistantNode.disconnect(this.assistantBridge)
+      } catch (_err) {
+        // Playback context already closed
+      }
+    }
+    this.merger.disconnect()
+    this.micSource = null
+    this.assistantSource = null
+    this.assistantNode = null
+    this.assistantBridge = null
+  }
+}
+
+// ---------------------------------------------------------------------------
+// WAV export
+// ---------------------------------------------------------------------------
+
+/** File extension matching the recording's container. */
+export function recordingExtension(recording: SessionRecording): string {
+  if (recording.mimeType.includes('ogg')) return 'ogg'
+  if (recording.mimeType.includes('mp4')) return 'm4a'
+  return 'webm'
+}
+
+/** Decode the compressed recording and re-encode it as 16-bit PCM WAV. */
+export async function recordingToWav(recording: SessionRecording): Promise<Blob> {
+  const data = await recording.blob.arrayBuffer()
+  const ctx = new OfflineAudioContext(2, 1, 48000)
+  const buffer = await ctx.decodeAudioData(data)
+  return encodeWav(buffer)
+}
+
+export function encodeWav(buffer: AudioBuffer): Blob {
+  const channels = buffer.numberOfChannels
+  const frames = buffer.length
+  const bytesPerSample = 2
+  const dataSize = frames * channels * bytesPerSample
+  const view = new DataView(new ArrayBuffer(44 + dataSize))
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i))
+  }
+
+  writeString(0, 'RIFF')
+  view.setUint32(4, 36 + dataSize, true)
+  writeString(8, 'WAVE')
+  writeString(12, 'fmt ')
+  view.setUint32(16, 16, true)
+  view.setUint16(20, 1, true)
+  view.setUint16(22, channels, true)
+  view.setUint32(24, buffer.sampleRate, true)
+  view.setUint32(28, buffer.sampleRate * channels * bytesPerSample, true)
+  view.setUint16(32, channels * bytesPerSample, true)
+  view.setUint16(34, 16, true)
+  writeString(36, 'data')
+  view.setUint32(40, dataSize, true)
+
+  const channelData = Array.from({ length: channels }, (_, c) => buffer.getChannelData(c))
+  let offset = 44
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < channels; c++) {
+      const s = Math.max(-1, Math.min(1, channelData[c][i]))
+      view.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7fff, true)
+      offset += bytesPerSample
+    }
+  }
+
+  return new Blob([view], { type: 'audio/wav' })
+}
@@ -0,0 +1,32 @@
+/**
+ * Speech synthesis utility
+ *
+ * Reads text aloud with the browser's built-in speechSynthesis, used for
+ * replies to typed messages, which arrive without agent audio.
+ */
+
+/** Whether the browser can speak text */
+export function supportsSpeechSynthesis(): boolean {
+  return typeof window !== 'undefined' && 'speechSynthesis' in window && typeof SpeechSynthesisUtterance !== 'undefined'
+}
+
+/**
+ * Speak `text`, replacing anything already being spoken
+ * @param text - Text to read aloud
+ * @param options - Playback volume (0..1) and BCP 47 language tag
+ * @returns false if speech synthesis is unavailable
+ */
+export function speakText(text: string, options: { volume?: number; lang?: string } = {}): boolean {
+  if (!supportsSpeechSynthesis() || !text.trim()) return false
+  window.speechSynthesis.cancel()
+  const utterance = new SpeechSynthesisUtterance(text)
+  if (options.volume !== undefined) utterance.volume = options.volume
+  if (options.lang) utterance.lang = options.lang
+  window.speechSynthesis.speak(utterance)
+  return true
+}
+
+/** Stop any speech in progress */
+export function cancelSpeech(): void {
+  if (supportsSpeechSynthesis()) window.speechSynthesis.cancel()
+}
@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import type { TranscriptEntry } from '@/lib/voiceSession'
+import {
+  toMarkdown,
+  toJson,
+  toPlainText,
+  toSrt,
+  toVtt,
+  serializeTranscript,
+  exportBaseName,
+} from '@/lib/transcriptExport'
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const START = new Date(2026, 2, 14, 9, 5, 0).getTime()
+
+function entry(role: TranscriptEntry['role'], text: string, offsetMs: number, extra: Partial<TranscriptEntry> = {}): TranscriptEntry {
+  return { id: `${role}-${offsetMs}`, role, text, timestamp: START + offsetMs, isFinal: true, ...extra }
+}
+
+const CONVERSATION: TranscriptEntry[] = [
+  entry('user', 'Hello there', 0),
+  entry('assistant', 'Hi! How can I help?', 2500),
+  entry('user', 'still typ', 4000, { isFinal: false }),
+  entry('user', 'Is 3 < 4 & 5 > 2?', 3_723_456),
+]
+
+function clock(offsetMs: number): string {
+  return new Date(START + offsetMs).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })
+}
+
+beforeEach(() => {
+  vi.useFakeTimers()
+  vi.setSystemTime(new Date(2026, 2, 14, 12, 0, 0))
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+// ---------------------------------------------------------------------------
+// Text formats
+// ---------------------------------------------------------------------------
+
+describe('toPlainText', () => {
+  it('writes a titled line per final entry with its clock time', () => {
+    expect(toPlainText(CONVERSATION, { title: 'Support call' })).toBe([
+      'Support call',
+      '',
+      `[${clock(0)}] User: Hello there`,
+      `[${clock(2500)}] Assistant: Hi! How can I help?`,
+      `[${clock(3_723_456)}] User: Is 3 < 4 & 5 > 2?`,
+      '',
+    ].join('\n'))
+  })
+
+  it('falls back to the default title and skips blank entries', () => {
+    const text = toPlainText([entry('user', '   ', 0)])
+    expect(text).toBe('VoiceFlow conversation\n\n')
+  })
+})
+
+describe('toMarkdown', () => {
+  it('marks speakers and interrupted replies', () => {
+    const markdown = toMarkdown([entry('assistant', 'Let me check', 0, { interrupted: true })], { title: 'Call' })
+    expect(markdown).toContain('# Call\n')
+    expect(markdown).toContain(`**Assistant** (${clock(0)}) _(interrupted)_\n\nLet me check\n`)
+  })
+})
+
+describe('toJson', () => {
+  it('includes metadata and only final entries', () => {
+    const data = JSON.parse(toJson(CONVERSATION, { title: 'Call', agentId: 'agent-1' }))
+    expect(data).toMatchObject({ title: 'Call', agentId: 'agent-1', startedAt: START, exportedAt: Date.now() })
+    expect(data.entries.map((e: TranscriptEntry) => e.text)).toEqual(['Hello there', 'Hi! How can I help?', 'Is 3 < 4 & 5 > 2?'])
+  })
+
+  it('round-trips quotes, backslashes and newlines', () => {
+    const text = 'She said "hi"\\n\nand left \\ again'
+    const data = JSON.parse(toJson([entry('user', text, 0)]))
+    expect(data.entries[0].text).toBe(text)
+  })
+
+  it('prefers an explicit session start', () => {
+    expect(JSON.parse(toJson(CONVERSATION, { startedAt: START - 1000 })).startedAt).toBe(START - 1000)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Captions
+// ---------------------------------------------------------------------------
+
+describe('toSrt', () => {
+  it('numbers cues and times them from the session start', () => {
+    expect(toSrt(CONVERSATION)).toBe([
+      '1',
+      '00:00:00,000 --> 00:00:01,500',
+      'User: Hello there',
+      '',
+      '2',
+      '00:00:02,500 --> 00:00:04,500',
+      'Assistant: Hi! How can I help?',
+      '',
+      '3',
+      '01:02:03,456 --> 01:02:06,656',
+      'User: Is 3 < 4 & 5 > 2?',
+      '',
+    ].join('\n'))
+  })
+
+  it('ends a cue where the next entry starts', () => {
+    const srt = toSrt([entry('user', 'one two three four five six', 0), entry('assistant', 'ok', 1000)])
+    expect(srt).toContain('00:00:00,000 --> 00:00:01,000')
+  })
+
+  it('caps long cues and offsets from an explicit start', () => {
+    const words = Array.from({ length: 60 }, (_, i) => `w${i}`).join(' ')
+    const srt = toSrt([entry('user', words, 0)], { startedAt: START - 61_000 })
+    expect(srt).toContain('00:01:01,000 --> 00:01:11,000')
+  })
+
+  it('collapses blank lines so text cannot end a cue early', () => {
+    const srt = toSrt([entry('assistant', 'First line\n\n\nSecond line', 0)])
+    expect(srt).toContain('Assistant: First line\nSecond line\n')
+  })
+})
+
+describe('toVtt', () => {
+  it('writes a header, voice tags and dot-separated times', () => {
+    const vtt = toVtt(CONVERSATION.slice(0, 2))
+    expect(vtt).toBe([
+      'WEBVTT',
+      '',
+      '00:00:00.000 --> 00:00:01.500',
+      '<v User>Hello there',
+      '',
+      '00:00:02.500 --> 00:00:04.500',
+      '<v Assistant>Hi! How can I help?',
+      '',
+    ].join('\n'))
+  })
+
+  it('escapes markup characters, including a cue arrow in the text', () => {
+    const vtt = toVtt([entry('user', 'a <b> & c --> d', 0)])
+    expect(vtt).toContain('<v User>a &lt;b&gt; &amp; c --&gt; d\n')
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Dispatch and file names
+// ---------------------------------------------------------------------------
+
+describe('serializeTranscript', () => {
+  it('dispatches on the format', () => {
+    expect(serializeTranscript(CONVERSATION, 'srt')).toBe(toSrt(CONVERSATION))
+    expect(serializeTranscript(CONVERSATION, 'vtt')).toBe(toVtt(CONVERSATION))
+    expect(serializeTranscript(CONVERSATION, 'txt')).toBe(toPlainText(CONVERSATION))
+  })
+})
+
+describe('exportBaseName', () => {
+  it('stamps the local date and time', () => {
+    expect(exportBaseName(START)).toBe('voiceflow-2026-03-14-0905')
+  })
+
+  it('uses the current time without a start', () => {
+    expect(exportBaseName(null)).toBe('voiceflow-2026-03-14-1200')
+  })
+})
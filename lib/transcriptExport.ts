@@ -0,0 +1,205 @@
+'use client'
+
+/**
+ * Transcript Export Utility
+ *
+ * Serializes a conversation to Markdown, JSON, plain text or timed captions
+ * (SRT / WebVTT). Caption cues are timed from each entry's timestamp relative
+ * to the start of the session and run until the next entry begins. Interim
+ * (non-final) entries are left out of every format.
+ *
+ * @example
+ * ```ts
+ * import { serializeTranscript, downloadTranscript } from '@/lib/transcriptExport'
+ *
+ * const srt = serializeTranscript(transcript, 'srt', { startedAt })
+ * downloadTranscript(transcript, 'markdown', { title: 'Support call' })
+ * ```
+ */
+
+import type { TranscriptEntry } from '@/lib/voiceSession'
+import { downloadBlob } from '@/lib/download'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type TranscriptExportFormat = 'markdown' | 'json' | 'txt' | 'srt' | 'vtt'
+
+export const EXPORT_FORMATS: Record<TranscriptExportFormat, { extension: string; mimeType: string }> = {
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+  json: { extension: 'json', mimeType: 'application/json' },
+  txt: { extension: 'txt', mimeType: 'text/plain' },
+  srt: { extension: 'srt', mimeType: 'application/x-subrip' },
+  vtt: { extension: 'vtt', mimeType: 'text/vtt' },
+}
+
+export interface TranscriptExportOptions {
+  title?: string
+  agentId?: string
+  /** Session start for caption timing (default: the first entry's timestamp) */
+  startedAt?: number
+}
+
+const DEFAULT_TITLE = 'VoiceFlow conversation'
+const SPEAKERS: Record<TranscriptEntry['role'], string> = { user: 'User', assistant: 'Assistant' }
+// Cue length when no later entry bounds it: reading time, within limits
+const MS_PER_WORD = 400
+const MIN_CUE_MS = 1500
+const MAX_CUE_MS = 10000
+
+// ---------------------------------------------------------------------------
+// Serializers
+// ---------------------------------------------------------------------------
+
+export function toMarkdown(entries: TranscriptEntry[], options: TranscriptExportOptions = {}): string {
+  const final = finalEntries(entries)
+  const lines = [`# ${options.title || DEFAULT_TITLE}`, '']
+  const startedAt = sessionStart(final, options)
+  if (startedAt !== null) lines.push(`_Started ${new Date(startedAt).toLocaleString()}_`, '')
+
+  for (const entry of final) {
+    const note = entry.interrupted ? ' _(interrupted)_' : ''
+    lines.push(`**${SPEAKERS[entry.role]}** (${clockTime(entry.timestamp)})${note}`, '', entry.text, '')
+  }
+  return lines.join('\n')
+}
+
+export function toJson(entries: TranscriptEntry[], options: TranscriptExportOptions = {}): string {
+  const final = finalEntries(entries)
+  return JSON.stringify(
+    {
+      title: options.title || DEFAULT_TITLE,
+      agentId: options.agentId,
+      startedAt: sessionStart(final, options),
+      exportedAt: Date.now(),
+      entries: final,
+    },
+    null,
+    2
+  )
+}
+
+export function toPlainText(entries: TranscriptEntry[], options: TranscriptExportOptions = {}): string {
+  const lines = finalEntries(entries).map(entry => `[${clockTime(entry.timestamp)}] ${SPEAKERS[entry.role]}: ${entry.text}`)
+  return [options.title || DEFAULT_TITLE, '', ...lines, ''].join('\n')
+}
+
+export function toSrt(entries: TranscriptEntry[], options: TranscriptExportOptions = {}): string {
+  return captionCues(entries, options)
+    .map((cue, i) => [
+      String(i + 1),
+      `${captionTime(cue.start, ',')} --> ${captionTime(cue.end, ',')}`,
+      `${SPEAKERS[cue.entry.role]}: ${cueText(cue.entry.text)}`,
+      '',
+    ].join('\n'))
+    .join('\n')
+}
+
+export function toVtt(entries: TranscriptEntry[], options: TranscriptExportOptions = {}): string {
+  const cues = captionCues(entries, options).map(cue => [
+    `${captionTime(cue.start, '.')} --> ${captionTime(cue.end, '.')}`,
+    `<v ${SPEAKERS[cue.entry.role]}>${escapeVtt(cueText(cue.entry.text))}`,
+    '',
+  ].join('\n'))
+  return ['WEBVTT', '', ...cues].join('\n')
+}
+
+export function serializeTranscript(
+  entries: TranscriptEntry[],
+  format: TranscriptExportFormat,
+  options: TranscriptExportOptions = {}
+): string {
+  switch (format) {
+    case 'markdown':
+      return toMarkdown(entries, options)
+    case 'json':
+      return toJson(entries, options)
+    case 'txt':
+      return toPlainText(entries, options)
+    case 'srt':
+      return toSrt(entries, options)
+    case 'vtt':
+      return toVtt(entries, options)
+  }
+}
+
+/** Serialize and hand the file to the browser as a download. */
+export function downloadTranscript(
+  entries: TranscriptEntry[],
+  format: TranscriptExportFormat,
+  options: TranscriptExportOptions = {}
+): void {
+  const { extension, mimeType } = EXPORT_FORMATS[format]
+  const blob = new Blob([serializeTranscript(entries, format, options)], { type: `${mimeType};charset=utf-8` })
+  downloadBlob(blob, `${exportBaseName(sessionStart(finalEntries(entries), options))}.${extension}`)
+}
+
+/** `voiceflow-YYYY-MM-DD-HHMM`, shared by transcript and recording downloads */
+export function exportBaseName(startedAt: number | null): string {
+  const d = new Date(startedAt ?? Date.now())
+  const stamp = `${d.getFullYear()}-${pad(d.getMonth() + 1, 2)}-${pad(d.getDate(), 2)}-${pad(d.getHours(), 2)}${pad(d.getMinutes(), 2)}`
+  return `voiceflow-${stamp}`
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+interface CaptionCue {
+  entry: TranscriptEntry
+  start: number
+  end: number
+}
+
+function finalEntries(entries: TranscriptEntry[]): TranscriptEntry[] {
+  return entries.filter(e => e.isFinal !== false && e.text.trim())
+}
+
+function sessionStart(entries: TranscriptEntry[], options: TranscriptExportOptions): number | null {
+  return options.startedAt ?? entries[0]?.timestamp ?? null
+}
+
+function captionCues(entries: TranscriptEntry[], options: TranscriptExportOptions): CaptionCue[] {
+  const final = finalEntries(entries)
+  const origin = sessionStart(final, options) ?? 0
+
+  return final.map((entry, i) => {
+    const start = Math.max(0, entry.timestamp - origin)
+    const words = entry.text.trim().split(/\s+/).length
+    let end = start + Math.min(MAX_CUE_MS, Math.max(MIN_CUE_MS, words * MS_PER_WORD))
+    const next = final[i + 1]
+    if (next) {
+      const nextStart = Math.max(0, next.timestamp - origin)
+      // Back-to-back entries still get a visible cue
+      if (nextStart > start) end = Math.min(end, nextStart)
+    }
+    return { entry, start, end }
+  })
+}
+
+function captionTime(ms: number, separator: ',' | '.'): string {
+  const total = Math.max(0, Math.round(ms))
+  const hours = Math.floor(total / 3600000)
+  const minutes = Math.floor((total % 3600000) / 60000)
+  const seconds = Math.floor((total % 60000) / 1000)
+  const millis = total % 1000
+  return `${pad(hours, 2)}:${pad(minutes, 2)}:${pad(seconds, 2)}${separator}${pad(millis, 3)}`
+}
+
+function clockTime(ts: number): string {
+  return new Date(ts).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })
+}
+
+// A blank line ends a cue in both caption formats
+function cueText(text: string): string {
+  return text.trim().replace(/\n(\s*\n)+/g, '\n')
+}
+
+function escapeVtt(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+function pad(value: number, length: number): string {
+  return String(value).padStart(length, '0')
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from 'vitest'
+import { TurnAudioStore } from '@/lib/turnAudio'
+
+// 250 samples = 1000 bytes of Float32
+function chunk(length = 250, value = 0.5): Float32Array {
+  return new Float32Array(length).fill(value)
+}
+
+describe('TurnAudioStore', () => {
+  it('links audio to the entry whether the transcript comes first or last', () => {
+    const store = new TurnAudioStore()
+    store.append(chunk(), 24000)
+    store.attachEntry('a')
+    store.endTurn()
+    store.attachEntry('b')
+    store.append(chunk(100), 16000)
+
+    expect(store.entryIds).toEqual(['a', 'b'])
+    expect(store.latestEntryId).toBe('b')
+    expect(store.get('a')?.samples.length).toBe(250)
+    expect(store.get('b')).toMatchObject({ sampleRate: 16000 })
+  })
+
+  it('concatenates the chunks of a turn', () => {
+    const store = new TurnAudioStore()
+    store.attachEntry('a')
+    store.append(chunk(2, 0.1), 24000)
+    store.append(chunk(3, 0.2), 24000)
+    expect(Array.from(store.get('a')?.samples ?? [])).toEqual([0.1, 0.1, 0.2, 0.2, 0.2].map(Math.fround))
+  })
+
+  it('evicts the oldest turns once over the cap', () => {
+    const onChange = vi.fn()
+    const store = new TurnAudioStore({ maxBytes: 2000, onChange })
+    for (const id of ['a', 'b', 'c']) {
+      store.attachEntry(id)
+      store.append(chunk(), 24000)
+      store.endTurn()
+    }
+    expect(store.entryIds).toEqual(['b', 'c'])
+    expect(onChange).toHaveBeenLastCalledWith(['b', 'c'])
+  })
+
+  it('caps a single turn longer than the limit, keeping its beginning', () => {
+    const store = new TurnAudioStore({ maxBytes: 1000 })
+    store.attachEntry('a')
+    store.append(chunk(200, 0.1), 24000)
+    for (let i = 0; i < 3; i++) store.append(chunk(200, 0.9), 24000)
+
+    const turn = store.get('a')
+    expect(turn?.samples.byteLength).toBe(1000)
+    expect(turn?.samples[0]).toBeCloseTo(0.1)
+  })
+
+  it('evicts older turns before capping the current one', () => {
+    const store = new TurnAudioStore({ maxBytes: 1000 })
+    store.attachEntry('a')
+    store.append(chunk(), 24000)
+    store.endTurn()
+    store.attachEntry('b')
+    for (let i = 0; i < 4; i++) store.append(chunk(), 24000)
+
+    expect(store.entryIds).toEqual(['b'])
+    expect(store.get('b')?.samples.byteLength).toBe(1000)
+  })
+
+  it('forgets everything on clear', () => {
+    const onChange = vi.fn()
+    const store = new TurnAudioStore({ onChange })
+    store.attachEntry('a')
+    store.append(chunk(), 24000)
+    store.clear()
+    expect(store.entryIds).toEqual([])
+    expect(store.get('a')).toBeNull()
+    expect(onChange).toHaveBeenLastCalledWith([])
+  })
+})
@@ -0,0 +1,156 @@
+'use client'
+
+/**
+ * Turn Audio Utility
+ *
+ * Keeps the decoded PCM of recent assistant turns so they can be replayed
+ * without another round trip to the agent. Audio is grouped into turns as it
+ * arrives and each turn is linked to its transcript entry once that shows up
+ * (the transcript may arrive before or after the audio). Older turns are
+ * evicted first once the memory cap is reached; a single turn longer than the
+ * cap keeps only its beginning.
+ *
+ * @example
+ * ```ts
+ * import { TurnAudioStore } from '@/lib/turnAudio'
+ *
+ * const store = new TurnAudioStore({ maxBytes: 32 * 1024 * 1024 })
+ * store.append(samples, 24000)
+ * store.attachEntry(entry.id)
+ * const turn = store.get(entry.id)
+ * ```
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface TurnAudio {
+  samples: Float32Array
+  sampleRate: number
+}
+
+export interface TurnAudioStoreOptions {
+  /** Upper bound on retained PCM (default 32 MB, about 5 minutes at 24 kHz) */
+  maxBytes?: number
+  /** Called whenever the set of replayable entries changes */
+  onChange?: (entryIds: string[]) => void
+}
+
+interface StoredTurn {
+  entryId: string | null
+  sampleRate: number
+  chunks: Float32Array[]
+  bytes: number
+}
+
+const DEFAULT_MAX_BYTES = 32 * 1024 * 1024
+
+// ---------------------------------------------------------------------------
+// Store
+// ---------------------------------------------------------------------------
+
+export class TurnAudioStore {
+  private readonly maxBytes: number
+  private readonly onChange?: (entryIds: string[]) => void
+  private turns: StoredTurn[] = []
+  private current: StoredTurn | null = null
+  private totalBytes = 0
+
+  constructor(options: TurnAudioStoreOptions = {}) {
+    this.maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES
+    this.onChange = options.onChange
+  }
+
+  /** Entry IDs that have audio, oldest first. */
+  get entryIds(): string[] {
+    return this.turns.filter(t => t.entryId && t.bytes > 0).map(t => t.entryId as string)
+  }
+
+  /** Most recent turn with audio and a transcript entry. */
+  get latestEntryId(): string | null {
+    const ids = this.entryIds
+    return ids.length > 0 ? ids[ids.length - 1] : null
+  }
+
+  append(samples: Float32Array, sampleRate: number): void {
+    if (samples.length === 0) return
+    if (this.current && this.current.bytes === 0) {
+      // A turn opened by its transcript takes the rate of its first audio
+      this.current.sampleRate = sampleRate
+    } else if (!this.current || this.current.sampleRate !== sampleRate) {
+      // A rate change mid-turn cannot be concatenated into one buffer
+      this.startTurn(sampleRate, null)
+    }
+    const turn = this.current as StoredTurn
+    const hadAudio = turn.bytes > 0
+    this.evict(samples.byteLength)
+    // Only the current turn is left once it alone reaches the cap
+    const room = Math.max(0, this.maxBytes - this.totalBytes)
+    const kept = samples.byteLength <= room ? samples : samples.slice(0, Math.floor(room / samples.BYTES_PER_ELEMENT))
+    if (kept.length === 0) return
+    turn.chunks.push(kept)
+    turn.bytes += kept.byteLength
+    this.totalBytes += kept.byteLength
+    if (!hadAudio && turn.entryId) this.notify()
+  }
+
+  /** Link the current turn (or the next one to receive audio) to a transcript entry. */
+  attachEntry(entryId: string): void {
+    if (this.turns.some(t => t.entryId === entryId)) return
+    if (this.current && !this.current.entryId) {
+      this.current.entryId = entryId
+      if (this.current.bytes > 0) this.notify()
+      return
+    }
+    // Transcript arrived first: open the turn its audio will fill
+    this.startTurn(0, entryId)
+  }
+
+  /** The current assistant turn is over; later audio starts a new one. */
+  endTurn(): void {
+    this.current = null
+  }
+
+  get(entryId: string): TurnAudio | null {
+    const turn = this.turns.find(t => t.entryId === entryId)
+    if (!turn || turn.bytes === 0) return null
+    const length = turn.chunks.reduce((n, c) => n + c.length, 0)
+    const samples = new Float32Array(length)
+    let offset = 0
+    for (const chunk of turn.chunks) {
+      samples.set(chunk, offset)
+      offset += chunk.length
+    }
+    return { samples, sampleRate: turn.sampleRate }
+  }
+
+  clear(): void {
+    const hadEntries = this.entryIds.length > 0
+    this.turns = []
+    this.current = null
+    this.totalBytes = 0
+    if (hadEntries) this.notify()
+  }
+
+  private startTurn(sampleRate: number, entryId: string | null): void {
+    const turn: StoredTurn = { entryId, sampleRate, chunks: [], bytes: 0 }
+    this.turns.push(turn)
+    this.current = turn
+  }
+
+  // Drops the oldest finished turns until `incomingBytes` more would fit
+  private evict(incomingBytes: number): void {
+    let evicted = false
+    while (this.totalBytes + incomingBytes > this.maxBytes && this.turns.length > 0 && this.turns[0] !== this.current) {
+      const oldest = this.turns.shift() as StoredTurn
+      this.totalBytes -= oldest.bytes
+      evicted = evicted || (!!oldest.entryId && oldest.bytes > 0)
+    }
+    if (evicted) this.notify()
+  }
+
+  private notify(): void {
+    this.onChange?.(this.entryIds)
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Voice Activity Detector Utility
+ *
+ * Energy + zero-crossing VAD fed with the per-frame levels reported by the
+ * capture worklet. The speech threshold follows an adaptive noise floor so a
+ * noisy room does not hold the detector open, and frames that are only just
+ * above it but cross zero very often (hiss, fans) are treated as noise.
+ * A short onset requirement and a hangover keep single clicks from opening
+ * the gate and word endings from being clipped.
+ *
+ * @example
+ * ```ts
+ * import { VoiceActivityDetector } from '@/lib/vad'
+ *
+ * const vad = new VoiceActivityDetector({
+ *   sensitivity: 'medium',
+ *   onSpeechStart: () => setTalking(true),
+ *   onSpeechEnd: () => setTalking(false),
+ * })
+ * if (vad.update(frame.rms, frame.zcr, 40)) send(frame)
+ * ```
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type VadSensitivity = 'low' | 'medium' | 'high'
+
+export const VAD_SENSITIVITIES: VadSensitivity[] = ['low', 'medium', 'high']
+
+export interface VadOptions {
+  /** Higher sensitivity picks up quieter speech but more background noise (default 'medium') */
+  sensitivity?: VadSensitivity
+  /** Speech required before the gate opens (default 60 ms) */
+  onsetMs?: number
+  /** Silence kept open after speech so word endings are not clipped (default 400 ms) */
+  hangoverMs?: number
+  onSpeechStart?: () => void
+  onSpeechEnd?: () => void
+}
+
+// Threshold = max(floor, noise floor × factor)
+const SENSITIVITY_PRESETS: Record<VadSensitivity, { factor: number; minRms: number }> = {
+  low: { factor: 4, minRms: 0.02 },
+  medium: { factor: 3, minRms: 0.012 },
+  high: { factor: 2, minRms: 0.006 },
+}
+
+const DEFAULT_ONSET_MS = 60
+const DEFAULT_HANGOVER_MS = 400
+const INITIAL_NOISE_FLOOR = 0.005
+const MAX_NOISE_FLOOR = 0.05
+const NOISE_ADAPT_RATE = 0.05
+// Noise-like frames: marginal energy with a zero-crossing rate above this
+const NOISE_ZCR = 0.4
+const MARGINAL_ENERGY = 1.5
+
+// ---------------------------------------------------------------------------
+// Detector
+// ---------------------------------------------------------------------------
+
+export class VoiceActivityDetector {
+  private preset = SENSITIVITY_PRESETS.medium
+  private readonly onsetMs: number
+  private readonly hangoverMs: number
+  private readonly onSpeechStart?: () => void
+  private readonly onSpeechEnd?: () => void
+  private noiseFloor = INITIAL_NOISE_FLOOR
+  private speechMs = 0
+  private silenceMs = 0
+  private speaking = false
+
+  constructor(options: VadOptions = {}) {
+    this.setSensitivity(options.sensitivity ?? 'medium')
+    this.onsetMs = options.onsetMs ?? DEFAULT_ONSET_MS
+    this.hangoverMs = options.hangoverMs ?? DEFAULT_HANGOVER_MS
+    this.onSpeechStart = options.onSpeechStart
+    this.onSpeechEnd = options.onSpeechEnd
+  }
+
+  get isSpeaking(): boolean {
+    return this.speaking
+  }
+
+  setSensitivity(sensitivity: VadSensitivity): void {
+    this.preset = SENSITIVITY_PRESETS[sensitivity] || SENSITIVITY_PRESETS.medium
+  }
+
+  /** Feed one frame; returns whether it belongs to speech (including hangover). */
+  update(rms: number, zcr: number, frameMs: number): boolean {
+    const threshold = Math.max(this.preset.minRms, this.noiseFloor * this.preset.factor)
+    const noiseLike = rms < threshold * MARGINAL_ENERGY && zcr > NOISE_ZCR
+    const isSpeech = rms >= threshold && !noiseLike
+
+    if (!isSpeech) {
+      // Only learn the floor from frames that are not speech
+      this.noiseFloor = Math.min(
+        MAX_NOISE_FLOOR,
+        this.noiseFloor + (rms - this.noiseFloor) * NOISE_ADAPT_RATE
+      )
+    }
+
+    if (isSpeech) {
+      this.silenceMs = 0
+      this.speechMs += frameMs
+      if (!this.speaking && this.speechMs >= this.onsetMs) {
+        this.speaking = true
+        this.onSpeechStart?.()
+      }
+    } else {
+      this.speechMs = 0
+      if (this.speaking) {
+        this.silenceMs += frameMs
+        if (this.silenceMs >= this.hangoverMs) {
+          this.speaking = false
+          this.silenceMs = 0
+          this.onSpeechEnd?.()
+        }
+      }
+    }
+
+    return this.speaking
+  }
+
+  /** Forget the current utterance (not the learned noise floor). No events fire. */
+  reset(): void {
+    this.speaking = false
+    this.speechMs = 0
+    this.silenceMs = 0
+  }
+}
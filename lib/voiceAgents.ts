@@ -0,0 +1,140 @@
+/**
+ * Voice Agent Registry
+ *
+ * The voice agents this deployment can talk to. Agents come from the
+ * `agents` array in workflow_state.json (those with `agent_type: "voice"`)
+ * and from NEXT_PUBLIC_VOICE_AGENTS, a JSON array that adds agents or
+ * overrides fields of workflow agents with the same ID:
+ *
+ *   NEXT_PUBLIC_VOICE_AGENTS='[{"id":"abc123","name":"Support","description":"Billing and account help","language":"English","voice":"sage"}]'
+ *
+ * The workflow file is bundled at build time. Used on the client (agent
+ * switcher and info) and the server (session allowlist and voice config).
+ *
+ * @example
+ * ```ts
+ * import { getVoiceAgents, getVoiceAgent } from '@/lib/voiceAgents'
+ *
+ * const agents = getVoiceAgents()
+ * const agent = getVoiceAgent(agentId) ?? agents[0]
+ * ```
+ */
+
+import workflowState from '@/workflow_state.json'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** `agent`: the agent greets the caller as soon as the session connects */
+export type VoiceInitiator = 'human' | 'agent'
+
+export interface VoiceAgent {
+  id: string
+  name: string
+  description?: string
+  provider?: string
+  model?: string
+  /** Voice the agent speaks with, e.g. "sage" */
+  voice?: string
+  /** Language the agent speaks, e.g. "English" */
+  language?: string
+  /** Who speaks first (default 'human') */
+  initiator?: VoiceInitiator
+  /** Opening line when the agent speaks first */
+  greeting?: string
+}
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+let cachedAgents: VoiceAgent[] | null = null
+
+/** All configured voice agents; the first is the default. */
+export function getVoiceAgents(): VoiceAgent[] {
+  if (cachedAgents) return cachedAgents
+
+  const agents = workflowAgents()
+  for (const configured of configuredAgents()) {
+    const index = agents.findIndex(a => a.id === configured.id)
+    if (index === -1) agents.push({ name: configured.id, ...configured })
+    else agents[index] = { ...agents[index], ...configured }
+  }
+  cachedAgents = agents
+  return agents
+}
+
+export function getVoiceAgent(id: string | null | undefined): VoiceAgent | null {
+  if (!id) return null
+  return getVoiceAgents().find(a => a.id === id) || null
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+type AgentConfig = Partial<VoiceAgent> & { id: string }
+
+function workflowAgents(): VoiceAgent[] {
+  const agents: unknown = (workflowState as { agents?: unknown }).agents
+  if (!Array.isArray(agents)) return []
+  return agents
+    .filter(entry => isRecord(entry) && entry.agent_type === 'voice')
+    .map(toAgentConfig)
+    .filter((agent): agent is AgentConfig => agent !== null)
+    .map(agent => ({ name: agent.id, ...agent }))
+}
+
+function configuredAgents(): AgentConfig[] {
+  const raw = process.env.NEXT_PUBLIC_VOICE_AGENTS
+  if (!raw) return []
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(raw)
+  } catch {
+    // Malformed configuration; fall back to workflow agents only
+    return []
+  }
+  if (!Array.isArray(parsed)) return []
+  return parsed
+    .map(toAgentConfig)
+    .filter((agent): agent is AgentConfig => agent !== null)
+}
+
+// Accepts the registry's own field names or workflow_state.json's. Entries
+// without a string ID are dropped; fields of the wrong type are ignored.
+function toAgentConfig(entry: unknown): AgentConfig | null {
+  if (!isRecord(entry)) return null
+  const id = nonEmptyString(entry.id) ?? nonEmptyString(entry.agent_id)
+  if (!id) return null
+  const voiceConfig = isRecord(entry.voice_config) ? entry.voice_config : {}
+  return stripUndefined({
+    id,
+    name: nonEmptyString(entry.name) ?? nonEmptyString(entry.agent_name),
+    description: nonEmptyString(entry.description),
+    provider: nonEmptyString(entry.provider),
+    model: nonEmptyString(entry.model),
+    voice: nonEmptyString(entry.voice) ?? nonEmptyString(voiceConfig.voice),
+    language: nonEmptyString(entry.language) ?? nonEmptyString(voiceConfig.language),
+    initiator: toInitiator(entry.initiator) ?? toInitiator(voiceConfig.initiator),
+    greeting: nonEmptyString(entry.greeting) ?? nonEmptyString(voiceConfig.message),
+  })
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function nonEmptyString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value : undefined
+}
+
+function toInitiator(value: unknown): VoiceInitiator | undefined {
+  return value === 'agent' || value === 'human' ? value : undefined
+}
+
+// So overrides only replace the fields they actually set
+function stripUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T
+}
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest'
+import { negotiateFraming, encodeAudioFrame, decodeFrame, FRAME_TYPE } from '@/lib/voiceFraming'
+
+describe('negotiateFraming', () => {
+  it('uses binary only when the server advertises it', () => {
+    expect(negotiateFraming({ audioConfig: { framing: ['binary', 'json'] } })).toBe('binary')
+    expect(negotiateFraming({ audioConfig: { framing: ['json'] } })).toBe('json')
+    expect(negotiateFraming({ audioConfig: {} })).toBe('json')
+  })
+
+  it('falls back to JSON for malformed responses', () => {
+    for (const data of [null, undefined, 'binary', 42, {}, { audioConfig: null }, { audioConfig: { framing: 'binary' } }]) {
+      expect(negotiateFraming(data)).toBe('json')
+    }
+  })
+})
+
+describe('audio frames', () => {
+  it('round-trips the header and payload', () => {
+    const pcm = new Int16Array([0, 1, -1, 32767, -32768])
+    const frame = decodeFrame(encodeAudioFrame(pcm.buffer, 7, 24000))
+
+    expect(frame).toMatchObject({ type: FRAME_TYPE.audio, sequence: 7, sampleRate: 24000 })
+    expect(Array.from(new Int16Array(frame!.payload))).toEqual(Array.from(pcm))
+  })
+
+  it('rejects short frames and unknown versions', () => {
+    expect(decodeFrame(new ArrayBuffer(4))).toBeNull()
+    const frame = encodeAudioFrame(new ArrayBuffer(2), 0, 24000)
+    new DataView(frame).setUint8(1, 9)
+    expect(decodeFrame(frame)).toBeNull()
+  })
+})
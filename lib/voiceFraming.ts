@@ -0,0 +1,94 @@
+/**
+ * Voice Framing Utility
+ *
+ * Binary WebSocket framing for voice session audio. Sending PCM16 as an
+ * ArrayBuffer avoids the ~33% base64 overhead and the per-byte string building
+ * of the JSON mode. Binary mode is only used when the server advertises it in
+ * the `/session/start` response; otherwise the client stays on JSON frames.
+ * Once the socket opens the client confirms with `{ type: 'framing', mode: 'binary' }`.
+ * Control messages (transcript, state, ...) remain JSON text in both modes.
+ *
+ * Frame layout (little-endian, 12-byte header followed by the payload):
+ *
+ * | offset | size | field                                  |
+ * |--------|------|----------------------------------------|
+ * | 0      | 1    | frame type (see FRAME_TYPE)            |
+ * | 1      | 1    | protocol version (currently 1)         |
+ * | 2      | 2    | reserved, must be 0                    |
+ * | 4      | 4    | sequence number (uint32, wraps)        |
+ * | 8      | 4    | sample rate in Hz (uint32)             |
+ * | 12     | n    | mono PCM16 samples                     |
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type VoiceFraming = 'json' | 'binary'
+
+export const FRAME_TYPE = {
+  audio: 0x01,
+} as const
+
+export const FRAME_VERSION = 1
+export const FRAME_HEADER_BYTES = 12
+
+export interface DecodedFrame {
+  type: number
+  sequence: number
+  sampleRate: number
+  payload: ArrayBuffer
+}
+
+// ---------------------------------------------------------------------------
+// Negotiation
+// ---------------------------------------------------------------------------
+
+/** Framing modes the client offers in the session start request. */
+export const SUPPORTED_FRAMINGS: VoiceFraming[] = ['binary', 'json']
+
+/**
+ * Pick the framing mode from a `/session/start` response. The server lists
+ * what it accepts in `audioConfig.framing`; anything else means JSON.
+ */
+export function negotiateFraming(sessionData: unknown): VoiceFraming {
+  if (typeof sessionData !== 'object' || sessionData === null) return 'json'
+  const { audioConfig } = sessionData as { audioConfig?: unknown }
+  if (typeof audioConfig !== 'object' || audioConfig === null) return 'json'
+  const { framing } = audioConfig as { framing?: unknown }
+  if (Array.isArray(framing) && framing.includes('binary')) {
+    return 'binary'
+  }
+  return 'json'
+}
+
+// ---------------------------------------------------------------------------
+// Encoding / decoding
+// ---------------------------------------------------------------------------
+
+export function encodeAudioFrame(pcm: ArrayBuffer, sequence: number, sampleRate: number): ArrayBuffer {
+  const frame = new ArrayBuffer(FRAME_HEADER_BYTES + pcm.byteLength)
+  const view = new DataView(frame)
+  view.setUint8(0, FRAME_TYPE.audio)
+  view.setUint8(1, FRAME_VERSION)
+  view.setUint16(2, 0, true)
+  view.setUint32(4, sequence >>> 0, true)
+  view.setUint32(8, sampleRate, true)
+  new Uint8Array(frame, FRAME_HEADER_BYTES).set(new Uint8Array(pcm))
+  return frame
+}
+
+/** Returns null for frames that are too short or from an unknown version. */
+export function decodeFrame(frame: ArrayBuffer): DecodedFrame | null {
+  if (frame.byteLength < FRAME_HEADER_BYTES) return null
+  const view = new DataView(frame)
+  if (view.getUint8(1) !== FRAME_VERSION) return null
+
+  return {
+    type: view.getUint8(0),
+    sequence: view.getUint32(4, true),
+    sampleRate: view.getUint32(8, true),
+    // Own buffer so callers can wrap it in an Int16Array directly
+    payload: frame.slice(FRAME_HEADER_BYTES),
+  }
+}
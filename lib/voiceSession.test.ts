@@ -0,0 +1,336 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import type { AudioCaptureOptions, CaptureFrame } from '@/lib/audioCapture'
+import { encodeAudioFrame } from '@/lib/voiceFraming'
+import { VoiceSession, VoiceSessionOptions, VoiceState } from '@/lib/voiceSession'
+
+// ---------------------------------------------------------------------------
+// Fakes
+// ---------------------------------------------------------------------------
+
+function fakeNode() {
+  return {
+    connect: () => {},
+    disconnect: () => {},
+    gain: { value: 1, cancelScheduledValues: () => {}, setTargetAtTime: () => {} },
+  }
+}
+
+class FakeAudioContext {
+  sampleRate = 48000
+  currentTime = 0
+  state = 'running'
+  destination = fakeNode()
+  createGain = fakeNode
+  createAnalyser = fakeNode
+  createMediaStreamSource = fakeNode
+
+  createBuffer(_channels: number, length: number, sampleRate: number) {
+    const data = new Float32Array(length)
+    return { length, sampleRate, duration: length / sampleRate, getChannelData: () => data }
+  }
+
+  createBufferSource() {
+    return { ...fakeNode(), buffer: null, onended: null, start: () => {}, stop: () => {} }
+  }
+
+  close() {
+    this.state = 'closed'
+    return Promise.resolve()
+  }
+}
+
+function fakeStream() {
+  const track = { onended: null, stop: () => {}, readyState: 'live', getSettings: () => ({ deviceId: 'mic' }) }
+  return { getTracks: () => [track], getAudioTracks: () => [track] } as unknown as MediaStream
+}
+
+class FakeSocket {
+  static readonly CONNECTING = 0
+  static readonly OPEN = 1
+  static readonly CLOSED = 3
+  static instances: FakeSocket[] = []
+
+  readonly url: string
+  readyState = FakeSocket.CONNECTING
+  binaryType = 'blob'
+  sent: (string | ArrayBuffer)[] = []
+  onopen: ((event: unknown) => void) | null = null
+  onmessage: ((event: { data: unknown }) => void) | null = null
+  onerror: ((event: unknown) => void) | null = null
+  onclose: ((event: { code: number }) => void) | null = null
+
+  constructor(url: string) {
+    this.url = url
+    FakeSocket.instances.push(this)
+  }
+
+  send(data: string | ArrayBuffer) {
+    this.sent.push(data)
+  }
+
+  close() {
+    this.readyState = FakeSocket.CLOSED
+  }
+
+  open() {
+    this.readyState = FakeSocket.OPEN
+    this.onopen?.({})
+  }
+
+  receive(message: object) {
+    this.onmessage?.({ data: JSON.stringify(message) })
+  }
+
+  receiveBinary(frame: ArrayBuffer) {
+    this.onmessage?.({ data: frame })
+  }
+
+  drop(code = 1006) {
+    this.readyState = FakeSocket.CLOSED
+    this.onclose?.({ code })
+  }
+
+  get messages(): { type: string; [key: string]: unknown }[] {
+    return this.sent.filter((data): data is string => typeof data === 'string').map(data => JSON.parse(data))
+  }
+}
+
+// 100 ms of a quiet tone at 24 kHz
+function pcmChunk(): Int16Array {
+  return new Int16Array(2400).map((_, i) => Math.round(Math.sin(i / 10) * 1000))
+}
+
+function audioMessage() {
+  return { type: 'audio', audio: Buffer.from(pcmChunk().buffer).toString('base64') }
+}
+
+function micFrame(audio = 'AAAA'): CaptureFrame {
+  return { encoding: 'base64', audio, sampleRate: 24000, rms: 0.1, zcr: 0.1 }
+}
+
+// Lets the un-awaited capture start finish
+function settle(): Promise<void> {
+  return new Promise(resolve => setImmediate(resolve))
+}
+
+interface SessionStart {
+  sampleRate?: number
+  framing?: string[]
+}
+
+function createHarness(responses: SessionStart[] = [{}], options: Partial<VoiceSessionOptions> = {}) {
+  const captures: AudioCaptureOptions[] = []
+  const requests: Record<string, unknown>[] = []
+  const fetchImpl = vi.fn(async (_url: string, init: RequestInit) => {
+    requests.push(JSON.parse(String(init.body)))
+    const { sampleRate = 24000, framing = ['json'] } = responses[Math.min(requests.length, responses.length) - 1]
+    return new Response(JSON.stringify({
+      wsUrl: `ws://voice.test/ws/${requests.length}`,
+      audioConfig: { sampleRate, framing },
+      resumeToken: 'resume',
+    }))
+  })
+
+  const session = new VoiceSession({
+    agentId: 'agent',
+    sessionStartUrl: '/api/voice/session',
+    reconnectPolicy: { maxAttempts: 2, baseDelayMs: 100, maxDelayMs: 100, jitter: 0 },
+    WebSocketImpl: FakeSocket as unknown as typeof WebSocket,
+    fetchImpl: fetchImpl as unknown as typeof fetch,
+    createAudioContext: () => new FakeAudioContext() as unknown as AudioContext,
+    getUserMedia: async () => fakeStream(),
+    createAudioCapture: async (_ctx, _stream, captureOptions) => {
+      captures.push(captureOptions)
+      return { frameSize: 960, stop: () => {} }
+    },
+    ...options,
+  })
+
+  const states: VoiceState[] = []
+  session.on('state', state => states.push(state))
+
+  return {
+    session,
+    states,
+    captures,
+    requests,
+    get socket() {
+      return FakeSocket.instances[FakeSocket.instances.length - 1]
+    },
+    async connect() {
+      await session.start()
+      this.socket.open()
+      await settle()
+    },
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('VoiceSession', () => {
+  beforeEach(() => {
+    FakeSocket.instances = []
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+
+  it('connects and streams microphone frames at the negotiated rate', async () => {
+    const harness = createHarness()
+    await harness.connect()
+
+    expect(harness.states).toEqual(['connecting', 'listening'])
+    expect(harness.requests[0]).toMatchObject({ agentId: 'agent', framing: ['binary', 'json'] })
+    expect(harness.captures[0]).toMatchObject({ targetSampleRate: 24000, encoding: 'base64' })
+
+    harness.captures[0].onFrame(micFrame())
+    expect(harness.socket.messages).toEqual([{ type: 'audio', audio: 'AAAA', sampleRate: 24000 }])
+    harness.session.end()
+    expect(harness.session.state).toBe('idle')
+  })
+
+  it('follows the server state messages', async () => {
+    const harness = createHarness()
+    await harness.connect()
+    const { session, socket } = harness
+
+    socket.receive({ type: 'thinking' })
+    expect(session.state).toBe('thinking')
+    socket.receive({ type: 'state', state: 'speaking' })
+    expect(session.state).toBe('speaking')
+    socket.receive({ type: 'state', state: 'listening' })
+    expect(session.state).toBe('listening')
+    socket.receive({ type: 'error', message: 'Agent unavailable' })
+    expect(session.error).toBe('Agent unavailable')
+    session.end()
+  })
+
+  it('revises interim transcripts in place until the final text', async () => {
+    const harness = createHarness()
+    await harness.connect()
+    const { session, socket } = harness
+
+    socket.receive({ type: 'transcript', role: 'user', text: 'What is', utteranceId: 'u1', isFinal: false })
+    socket.receive({ type: 'transcript', role: 'user', text: 'What is the time?', utteranceId: 'u1', isFinal: true })
+    socket.receive({ type: 'transcript', role: 'user', text: 'What', utteranceId: 'u1', isFinal: false })
+    socket.receive({ type: 'transcript', role: 'assistant', text: 'Noon.', utteranceId: 'a1' })
+
+    expect(session.transcript.map(({ id, role, text, isFinal }) => ({ id, role, text, isFinal }))).toEqual([
+      { id: 'u1', role: 'user', text: 'What is the time?', isFinal: true },
+      { id: 'a1', role: 'assistant', text: 'Noon.', isFinal: true },
+    ])
+    session.end()
+  })
+
+  it('plays JSON and binary audio and keeps it for replay', async () => {
+    const harness = createHarness([{ framing: ['binary', 'json'] }])
+    await harness.connect()
+    const { session, socket } = harness
+    const audio = vi.fn()
+    session.on('audio', audio)
+
+    expect(socket.messages).toContainEqual({ type: 'framing', mode: 'binary' })
+    socket.receive({ type: 'transcript', role: 'assistant', text: 'Hello', utteranceId: 'a1' })
+    socket.receive(audioMessage())
+    socket.receiveBinary(encodeAudioFrame(pcmChunk().buffer as ArrayBuffer, 0, 16000))
+
+    expect(session.state).toBe('speaking')
+    expect(audio.mock.calls.map(([chunk]) => [chunk.samples.length, chunk.sampleRate])).toEqual([[2400, 24000], [2400, 16000]])
+    expect(session.replayableIds).toEqual(['a1'])
+    session.end()
+  })
+
+  it('returns to listening when the server clears a reply on its own', async () => {
+    const harness = createHarness()
+    await harness.connect()
+    const { session, socket } = harness
+
+    socket.receive(audioMessage())
+    expect(session.state).toBe('speaking')
+    socket.receive({ type: 'clear' })
+    expect(session.state).toBe('listening')
+    session.end()
+  })
+
+  it('reports a failed device check instead of leaving it unhandled', async () => {
+    let onDeviceChange = () => {}
+    vi.stubGlobal('navigator', {
+      mediaDevices: {
+        addEventListener: (_type: string, listener: () => void) => { onDeviceChange = listener },
+        removeEventListener: () => {},
+        enumerateDevices: () => Promise.reject(new Error('Device enumeration blocked')),
+      },
+    })
+    const harness = createHarness()
+    await harness.connect()
+    const error = vi.fn()
+    harness.session.on('error', error)
+
+    onDeviceChange()
+    await settle()
+    expect(error).toHaveBeenCalledWith('Device enumeration blocked')
+    harness.session.end()
+  })
+
+  it('reconnects after a dropped socket and sends the audio spoken in the gap', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] })
+    const harness = createHarness()
+    await harness.connect()
+    const first = harness.socket
+
+    first.drop()
+    expect(harness.session.state).toBe('reconnecting')
+    harness.captures[0].onFrame(micFrame('GAP1'))
+
+    await vi.advanceTimersByTimeAsync(100)
+    const second = harness.socket
+    expect(second).not.toBe(first)
+    expect(harness.requests[1]).toMatchObject({ resumeToken: 'resume' })
+
+    second.open()
+    expect(harness.session.state).toBe('listening')
+    expect(second.messages).toEqual([{ type: 'audio', audio: 'GAP1', sampleRate: 24000 }])
+    // The capture worklet survives the reconnect
+    expect(harness.captures).toHaveLength(1)
+    harness.session.end()
+  })
+
+  it('rebuilds capture when the reconnect renegotiates the audio format', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] })
+    const harness = createHarness([{}, { sampleRate: 16000, framing: ['binary', 'json'] }])
+    await harness.connect()
+
+    harness.socket.drop()
+    harness.captures[0].onFrame(micFrame('STALE'))
+    await vi.advanceTimersByTimeAsync(100)
+    harness.socket.open()
+    await settle()
+
+    expect(harness.captures[1]).toMatchObject({ targetSampleRate: 16000, encoding: 'pcm16' })
+    // Held frames were encoded for the old session
+    expect(harness.socket.messages).toEqual([{ type: 'framing', mode: 'binary' }])
+    harness.session.end()
+  })
+
+  it('fails once the reconnect attempts run out and ends on a clean close', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] })
+    const dropped = createHarness()
+    await dropped.connect()
+    dropped.socket.drop()
+    await vi.advanceTimersByTimeAsync(100)
+    dropped.socket.drop()
+    await vi.advanceTimersByTimeAsync(100)
+    dropped.socket.drop()
+    expect(dropped.session.state).toBe('error')
+    expect(dropped.session.error).toBe('Connection lost')
+
+    const closed = createHarness()
+    await closed.connect()
+    closed.socket.drop(1000)
+    expect(closed.session.state).toBe('idle')
+  })
+})
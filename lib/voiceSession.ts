@@ -0,0 +1,1289 @@
+'use client'
+
+/**
+ * Voice Session Client
+ *
+ * Framework-agnostic client for Lyzr voice agents. Starts a session over
+ * HTTP, streams microphone audio over the session WebSocket and plays the
+ * assistant's replies, reporting progress through a small typed event
+ * emitter. React code should use `useVoiceSession` from
+ * `@/hooks/useVoiceSession`; other embeds can drive the class directly.
+ *
+ * @example
+ * ```ts
+ * import { VoiceSession } from '@/lib/voiceSession'
+ *
+ * const session = new VoiceSession({
+ *   agentId: 'xxx',
+ *   sessionStartUrl: '/api/voice/session',
+ * })
+ * session.on('state', (state) => console.log(state))
+ * session.on('transcript', (entries) => render(entries))
+ * await session.start()
+ * ```
+ */
+
+import { createAudioCapture, AudioCapture, CaptureFrame, CaptureFrameDuration } from '@/lib/audioCapture'
+import { pcm16ToFloat32 } from '@/lib/resampler'
+import { PlaybackQueue } from '@/lib/playbackQueue'
+import { JitterBuffer, JitterBufferStats } from '@/lib/jitterBuffer'
+import { OutputGain } from '@/lib/outputGain'
+import { createLevelAnalyser } from '@/lib/audioLevels'
+import { generateUUID } from '@/lib/utils'
+import { SessionRecorder, SessionRecording, RecordingLayout, supportsSessionRecording } from '@/lib/sessionRecorder'
+import {
+  VoiceFraming,
+  FRAME_TYPE,
+  SUPPORTED_FRAMINGS,
+  negotiateFraming,
+  encodeAudioFrame,
+  decodeFrame,
+} from '@/lib/voiceFraming'
+import { ReconnectPolicy, DEFAULT_RECONNECT_POLICY, getReconnectDelay, shouldReconnect } from '@/lib/reconnect'
+import { BargeInDetector } from '@/lib/bargeIn'
+import { VoiceActivityDetector, VadSensitivity } from '@/lib/vad'
+import { listAudioDevices, onAudioDevicesChange } from '@/lib/audioDevices'
+import { TurnAudioStore } from '@/lib/turnAudio'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type VoiceState = 'idle' | 'connecting' | 'reconnecting' | 'listening' | 'thinking' | 'speaking' | 'error'
+
+/** `open`: stream the mic continuously. `push-to-talk`: only while held. */
+export type InputMode = 'open' | 'push-to-talk'
+
+export interface TranscriptEntry {
+  /** Utterance ID from the server (generated locally if it sends none) */
+  id: string
+  role: 'user' | 'assistant'
+  text: string
+  timestamp: number
+  /** False while recognition is still revising the text */
+  isFinal: boolean
+  /** Assistant turn was cut off by the user speaking over it */
+  interrupted?: boolean
+  /** Fraction of the turn's audio that played before the interruption, 0..1 */
+  spokenRatio?: number
+  /** Sent or answered through the text composer rather than spoken */
+  typed?: boolean
+  /** Language of the text (BCP 47 tag or name), from the server or the session's language */
+  language?: string
+}
+
+export interface AssistantAudio {
+  samples: Float32Array
+  sampleRate: number
+}
+
+export interface VoiceSessionEvents {
+  state: VoiceState
+  transcript: TranscriptEntry[]
+  /** Decoded assistant audio, emitted as each chunk arrives */
+  audio: AssistantAudio
+  error: string | null
+  /** Push-to-talk is being held */
+  talking: boolean
+  /** Voice activity detected on the microphone (speech start/end) */
+  userSpeaking: boolean
+  /** Session audio, emitted once after a recorded session ends */
+  recording: SessionRecording
+  /** Assistant entries whose audio is still held for replay */
+  replayable: string[]
+  /** Entry being replayed, or null when replay stops */
+  replaying: string | null
+}
+
+export interface VoiceSessionOptions {
+  agentId: string
+  sessionStartUrl: string
+  /** Must match the ID the server issued to this browser; the server assigns one if omitted */
+  userId?: string
+  /** Language hint for recognition and replies, e.g. "en" or "English" */
+  language?: string
+  /** Capture frame length (default 40 ms) */
+  captureFrameMs?: CaptureFrameDuration
+  reconnectPolicy?: ReconnectPolicy
+  /** Outgoing audio kept while reconnecting; older speech is dropped (default 5000 ms) */
+  reconnectBufferMs?: number
+  /** Assistant audio buffered before playback starts or resumes (default 120 ms) */
+  jitterTargetMs?: number
+  /** Assistant audio kept for replay; oldest turns are dropped first (default 32 MB) */
+  replayBufferBytes?: number
+  /** Injection points for tests and non-browser hosts */
+  WebSocketImpl?: typeof WebSocket
+  fetchImpl?: typeof fetch
+  /** Creates the capture, playback and replay contexts (default: `new AudioContext()`) */
+  createAudioContext?: () => AudioContext
+  /** Opens the microphone (default: `navigator.mediaDevices.getUserMedia`) */
+  getUserMedia?: (constraints: MediaStreamConstraints) => Promise<MediaStream>
+  /** Starts the capture worklet on the microphone stream (default: `createAudioCapture`) */
+  createAudioCapture?: typeof createAudioCapture
+}
+
+type Listener<T> = (payload: T) => void
+
+type ListenerSets = { [K in keyof VoiceSessionEvents]?: Set<Listener<VoiceSessionEvents[K]>> }
+
+/** Body returned by the session start endpoint */
+interface SessionStartResponse {
+  wsUrl: string
+  audioConfig?: { sampleRate?: number; framing?: string[] }
+  resumeToken?: string
+  sessionId?: string
+}
+
+/** JSON messages from the voice server; unknown types are ignored */
+type ServerMessage =
+  | { type: 'audio'; audio: string }
+  | {
+    type: 'transcript'
+    role: string
+    text: string
+    utteranceId?: string
+    utterance_id?: string
+    isFinal?: boolean
+    is_final?: boolean
+    language?: string
+  }
+  | { type: 'thinking' }
+  | { type: 'clear' }
+  | { type: 'error'; message?: string; messageType?: string; utteranceId?: string }
+  | { type: 'state'; state: string }
+
+type ServerErrorMessage = Extract<ServerMessage, { type: 'error' }>
+
+const DEFAULT_SAMPLE_RATE = 24000
+const DEFAULT_CAPTURE_FRAME_MS: CaptureFrameDuration = 40
+const DEFAULT_RECONNECT_BUFFER_MS = 5000
+const DEFAULT_JITTER_TARGET_MS = 120
+// Audio kept from before the VAD opens so word onsets are not clipped
+const VAD_PREROLL_MS = 200
+// How long a text turn waits for a response before sendText stops waiting. A
+// slow answer may still arrive, so this never triggers the REST fallback.
+const TEXT_ACK_TIMEOUT_MS = 5000
+
+// ---------------------------------------------------------------------------
+// Voice session
+// ---------------------------------------------------------------------------
+
+export class VoiceSession {
+  private readonly options: VoiceSessionOptions
+  private readonly listeners: ListenerSets = {}
+
+  private _state: VoiceState = 'idle'
+  private _transcript: TranscriptEntry[] = []
+  private _error: string | null = null
+  private _muted = false
+  private _inputMode: InputMode = 'open'
+  private _talking = false
+  private _userSpeaking = false
+  private vadGating = false
+  private prerollAudio: CaptureFrame[] = []
+
+  private ws: WebSocket | null = null
+  private audioContext: AudioContext | null = null
+  private mediaStream: MediaStream | null = null
+  private capture: AudioCapture | null = null
+  private sampleRate = DEFAULT_SAMPLE_RATE
+  private framing: VoiceFraming = 'json'
+  private sendSequence = 0
+  private resumeToken: string | null = null
+  private _sessionId: string | null = null
+  private reconnectAttempt = 0
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  private pendingAudio: CaptureFrame[] = []
+  private inputDeviceId: string | null = null
+  private outputDeviceId: string | null = null
+  private unsubscribeDevices: (() => void) | null = null
+
+  private playbackQueue: PlaybackQueue | null = null
+  private outputGain: OutputGain | null = null
+  private _outputAnalyser: AnalyserNode | null = null
+  private _inputAnalyser: AnalyserNode | null = null
+  private inputAnalyserSource: MediaStreamAudioSourceNode | null = null
+  private recorder: SessionRecorder | null = null
+  private recordingLayout: RecordingLayout | null = null
+  private volume = 1
+  private ducking = false
+  private jitterBuffer: JitterBuffer | null = null
+  private readonly turnAudio: TurnAudioStore
+  private language: string | null
+  private replaySource: AudioBufferSourceNode | null = null
+  // Only used for replays outside a session
+  private replayContext: AudioContext | null = null
+  private _replayingId: string | null = null
+  private readonly bargeInDetector = new BargeInDetector()
+  private readonly vad = new VoiceActivityDetector({
+    onSpeechStart: () => this.setUserSpeaking(true),
+    onSpeechEnd: () => {
+      this.setUserSpeaking(false)
+      // With silence suppressed the server cannot hear the pause itself
+      if (this.isVadGating) this.sendEndOfUtterance()
+    },
+  })
+  // Set after a barge-in until the server acknowledges, so audio already in
+  // flight for the cancelled turn is not played
+  private interrupted = false
+  // Text turn awaiting the server's first response, and whether this
+  // connection has already refused one
+  private pendingText: { entryId: string; resolve: (accepted: boolean) => void; timer: ReturnType<typeof setTimeout> } | null = null
+  private textTurnsRejected = false
+
+  constructor(options: VoiceSessionOptions) {
+    this.options = options
+    this.language = options.language || null
+    this.turnAudio = new TurnAudioStore({
+      maxBytes: options.replayBufferBytes,
+      onChange: entryIds => this.emit('replayable', entryIds),
+    })
+  }
+
+  // Resolved lazily so sessions can be constructed during server rendering
+  private get WebSocketImpl(): typeof WebSocket {
+    return this.options.WebSocketImpl || WebSocket
+  }
+
+  private get fetchImpl(): typeof fetch {
+    return this.options.fetchImpl || fetch
+  }
+
+  private createAudioContext(): AudioContext {
+    return this.options.createAudioContext ? this.options.createAudioContext() : new AudioContext()
+  }
+
+  private getUserMedia(constraints: MediaStreamConstraints): Promise<MediaStream> {
+    if (this.options.getUserMedia) return this.options.getUserMedia(constraints)
+    return navigator.mediaDevices.getUserMedia(constraints)
+  }
+
+  // -------------------------------------------------------------------------
+  // Events
+  // -------------------------------------------------------------------------
+
+  /** Subscribe to an event; returns an unsubscribe function. */
+  on<K extends keyof VoiceSessionEvents>(event: K, listener: Listener<VoiceSessionEvents[K]>): () => void {
+    let set: Set<Listener<VoiceSessionEvents[K]>> = this.listeners[event]
+    if (!set) {
+      set = new Set()
+      this.listeners[event] = set as ListenerSets[K]
+    }
+    set.add(listener)
+    return () => this.off(event, listener)
+  }
+
+  off<K extends keyof VoiceSessionEvents>(event: K, listener: Listener<VoiceSessionEvents[K]>): void {
+    this.listeners[event]?.delete(listener)
+  }
+
+  private emit<K extends keyof VoiceSessionEvents>(event: K, payload: VoiceSessionEvents[K]): void {
+    this.listeners[event]?.forEach(listener => listener(payload))
+  }
+
+  // -------------------------------------------------------------------------
+  // State
+  // -------------------------------------------------------------------------
+
+  get state(): VoiceState {
+    return this._state
+  }
+
+  get transcript(): TranscriptEntry[] {
+    return this._transcript
+  }
+
+  get error(): string | null {
+    return this._error
+  }
+
+  get isMuted(): boolean {
+    return this._muted
+  }
+
+  get inputMode(): InputMode {
+    return this._inputMode
+  }
+
+  get isTalking(): boolean {
+    return this._talking
+  }
+
+  get isUserSpeaking(): boolean {
+    return this._userSpeaking
+  }
+
+  /** Microphone signal for visualisation; null outside a session */
+  get inputAnalyser(): AnalyserNode | null {
+    return this._inputAnalyser
+  }
+
+  /** Assistant playback (before volume) for visualisation; null outside a session */
+  get outputAnalyser(): AnalyserNode | null {
+    return this._outputAnalyser
+  }
+
+  /** Server-assigned session ID, available once a session has started */
+  get sessionId(): string | null {
+    return this._sessionId
+  }
+
+  get isActive(): boolean {
+    return this._state !== 'idle' && this._state !== 'error'
+  }
+
+  /** Assistant entries whose audio is still held for replay */
+  get replayableIds(): string[] {
+    return this.turnAudio.entryIds
+  }
+
+  /** Assistant entry currently being replayed */
+  get replayingId(): string | null {
+    return this._replayingId
+  }
+
+  private setState(state: VoiceState): void {
+    if (this._state === state) return
+    this._state = state
+    this.emit('state', state)
+  }
+
+  private setTalking(talking: boolean): void {
+    this._talking = talking
+    this.emit('talking', talking)
+  }
+
+  private setUserSpeaking(speaking: boolean): void {
+    if (this._userSpeaking === speaking) return
+    this._userSpeaking = speaking
+    this.emit('userSpeaking', speaking)
+  }
+
+  private setReplaying(entryId: string | null): void {
+    if (this._replayingId === entryId) return
+    this._replayingId = entryId
+    this.emit('replaying', entryId)
+  }
+
+  private setError(error: string | null): void {
+    this._error = error
+    this.emit('error', error)
+  }
+
+  private updateTranscript(update: (prev: TranscriptEntry[]) => TranscriptEntry[]): void {
+    const next = update(this._transcript)
+    if (next === this._transcript) return
+    this._transcript = next
+    this.emit('transcript', next)
+  }
+
+  // -------------------------------------------------------------------------
+  // Public API
+  // -------------------------------------------------------------------------
+
+  async start(): Promise<void> {
+    if (this.isActive) return
+
+    try {
+      this.setError(null)
+      this.setState('connecting')
+      this.resumeToken = null
+      this._sessionId = null
+      this.reconnectAttempt = 0
+      this.pendingAudio = []
+
+      const data = await this.requestSession()
+      // end() was called while the request was in flight
+      if (this._state !== 'connecting') return
+      this.applyAudioConfig(data)
+      this.sendSequence = 0
+
+      // Both contexts run at the hardware's native rate; conversion to and
+      // from the session rate happens in the capture worklet and PlaybackQueue.
+      const audioContext = this.createAudioContext()
+      this.audioContext = audioContext
+      this._inputAnalyser = createLevelAnalyser(audioContext)
+
+      const playbackContext = this.createAudioContext()
+      const outputGain = new OutputGain(playbackContext, { volume: this.volume, ducking: this.ducking })
+      this.outputGain = outputGain
+      const outputAnalyser = createLevelAnalyser(playbackContext)
+      outputAnalyser.connect(outputGain.node)
+      this._outputAnalyser = outputAnalyser
+      const queue = new PlaybackQueue(playbackContext, {
+        destination: outputAnalyser,
+        onDrain: () => {
+          outputGain.reset()
+          this.jitterBuffer?.handleDrain()
+        },
+      })
+      this.playbackQueue = queue
+      this.applyOutputDevice()
+      this.jitterBuffer = new JitterBuffer(queue, {
+        targetLatencyMs: this.options.jitterTargetMs ?? DEFAULT_JITTER_TARGET_MS,
+        onDrain: () => this.setState('listening'),
+      })
+
+      const stream = await this.openMicrophone()
+      if (this.audioContext !== audioContext) {
+        stream.getTracks().forEach(t => t.stop())
+        return
+      }
+      this.setMediaStream(stream)
+      this.unsubscribeDevices = onAudioDevicesChange(() => this.handleDeviceChange())
+      this.startRecording(audioContext, stream, outputAnalyser)
+
+      this.openSocket(data.wsUrl, audioContext, { hasConnected: false })
+    } catch (err) {
+      this.fail(err instanceof Error ? err.message : 'Failed to start voice session')
+    }
+  }
+
+  end(): void {
+    this.cleanup()
+    this.setState('idle')
+  }
+
+  setMuted(muted: boolean): void {
+    this._muted = muted
+    if (muted) this.resetVad()
+  }
+
+  /**
+   * Suppress silent frames in open-mic mode so only speech is streamed.
+   * Detection (and the `userSpeaking` event) runs either way.
+   */
+  setVadGating(enabled: boolean): void {
+    this.vadGating = enabled
+    this.prerollAudio = []
+  }
+
+  setVadSensitivity(sensitivity: VadSensitivity): void {
+    this.vad.setSensitivity(sensitivity)
+  }
+
+  clearTranscript(): void {
+    this.stopReplay()
+    this.turnAudio.clear()
+    this.updateTranscript(() => [])
+  }
+
+  /**
+   * Append a typed message or its reply to the transcript. Typed turns share
+   * the transcript (and its history and export) with spoken ones.
+   */
+  addTypedEntry(role: TranscriptEntry['role'], text: string): TranscriptEntry {
+    const entry: TranscriptEntry = { id: generateUUID(), role, text, timestamp: Date.now(), isFinal: true, typed: true }
+    if (this.language) entry.language = this.language
+    // A typed turn closes any assistant audio still being collected
+    this.turnAudio.endTurn()
+    this.updateTranscript(prev => [...prev, entry])
+    return entry
+  }
+
+  /** Take back a typed entry that was never delivered, so a resend does not duplicate it. */
+  removeTypedEntry(entryId: string): void {
+    this.updateTranscript(prev => prev.filter(e => e.id !== entryId || !e.typed))
+  }
+
+  /**
+   * Send a typed turn over the live connection; the agent answers by voice.
+   * Resolves false (and takes the entry back out of the transcript) when
+   * there is no open connection or the server rejects this text turn, so the
+   * caller can deliver the message another way. A turn with no response
+   * within TEXT_ACK_TIMEOUT_MS resolves true and stays on the socket, since
+   * resending it elsewhere could get it answered twice.
+   */
+  sendText(text: string): Promise<boolean> {
+    const ws = this.ws
+    if (!text.trim() || this.textTurnsRejected || !ws || ws.readyState !== this.WebSocketImpl.OPEN) {
+      return Promise.resolve(false)
+    }
+    // Only one text turn is tracked at a time
+    this.settleText(true)
+    if (this.jitterBuffer?.isPlaying) this.bargeIn()
+    this.stopReplay()
+
+    const entry = this.addTypedEntry('user', text)
+    ws.send(JSON.stringify({ type: 'text', text, utteranceId: entry.id }))
+    return new Promise(resolve => {
+      const timer = setTimeout(() => this.settleText(true), TEXT_ACK_TIMEOUT_MS)
+      this.pendingText = { entryId: entry.id, resolve, timer }
+    })
+  }
+
+  setInputMode(mode: InputMode): void {
+    if (mode === this._inputMode) return
+    if (this._talking) this.stopTalking()
+    this._inputMode = mode
+    this.resetVad()
+  }
+
+  /**
+   * Push-to-talk pressed: start sending audio. Pressing while the assistant
+   * is speaking interrupts it straight away.
+   */
+  startTalking(): void {
+    if (this._inputMode !== 'push-to-talk' || this._talking || !this.isActive) return
+    this.setTalking(true)
+    this.stopReplay()
+    if (this.jitterBuffer?.isPlaying) this.bargeIn()
+  }
+
+  /** Push-to-talk released: stop sending audio and tell the server the utterance is complete. */
+  stopTalking(): void {
+    if (!this._talking) return
+    this.setTalking(false)
+    this.resetVad()
+    this.sendEndOfUtterance()
+  }
+
+  getPlaybackStats(): JitterBufferStats | null {
+    return this.jitterBuffer?.getStats() || null
+  }
+
+  /**
+   * Choose the microphone (null = system default). During a session the
+   * capture track is swapped in place; the WebSocket stays connected.
+   */
+  async setInputDevice(deviceId: string | null): Promise<void> {
+    if (deviceId === this.inputDeviceId) return
+    this.inputDeviceId = deviceId
+    await this.swapMicrophone()
+  }
+
+  /**
+   * Record the next session's audio (null to stop recording). Takes effect
+   * when a session starts; the result arrives as a `recording` event.
+   */
+  setRecording(layout: RecordingLayout | null): void {
+    this.recordingLayout = layout
+  }
+
+  /**
+   * Language hint for the next session start (null = the agent's own), and
+   * the language new transcript entries are tagged with unless the server
+   * says otherwise.
+   */
+  setLanguage(language: string | null): void {
+    this.language = language
+  }
+
+  /** Assistant playback volume, 0..1. Applies immediately and to later sessions. */
+  setVolume(volume: number): void {
+    this.volume = volume
+    this.outputGain?.setVolume(volume)
+  }
+
+  /** Lower assistant playback while the user is speaking. */
+  setDucking(enabled: boolean): void {
+    this.ducking = enabled
+    this.outputGain?.setDucking(enabled)
+  }
+
+  /**
+   * Play an assistant turn again from retained audio (default: the latest
+   * one). Returns false if the audio is no longer held or the assistant is
+   * speaking. During a session the replay goes through the live output, so
+   * volume, routing and recording apply to it.
+   */
+  replayTurn(entryId?: string): boolean {
+    const id = entryId ?? this.turnAudio.latestEntryId
+    const turn = id ? this.turnAudio.get(id) : null
+    if (!turn || this.jitterBuffer?.isPlaying) return false
+    this.stopReplay()
+
+    let context: AudioContext
+    let destination: AudioNode
+    if (this.playbackQueue && this._outputAnalyser) {
+      context = this.playbackQueue.context
+      destination = this._outputAnalyser
+    } else {
+      context = this.createAudioContext()
+      const gain = context.createGain()
+      gain.gain.value = this.volume
+      gain.connect(context.destination)
+      destination = gain
+      this.replayContext = context
+      this.applyOutputDevice()
+    }
+
+    const buffer = context.createBuffer(1, turn.samples.length, turn.sampleRate)
+    buffer.getChannelData(0).set(turn.samples)
+    const source = context.createBufferSource()
+    source.buffer = buffer
+    source.connect(destination)
+    source.onended = () => {
+      if (this.replaySource === source) this.finishReplay()
+    }
+    source.start()
+    this.replaySource = source
+    this.setReplaying(id)
+    return true
+  }
+
+  stopReplay(): void {
+    if (!this.replaySource) return
+    this.replaySource.onended = null
+    try {
+      this.replaySource.stop()
+    } catch (_err) {
+      // Already finished
+    }
+    this.finishReplay()
+  }
+
+  /** Route assistant audio to a speaker (null = system default), where supported. */
+  setOutputDevice(deviceId: string | null): void {
+    if (deviceId === this.outputDeviceId) return
+    this.outputDeviceId = deviceId
+    this.applyOutputDevice()
+  }
+
+  // -------------------------------------------------------------------------
+  // Devices
+  // -------------------------------------------------------------------------
+
+  // Falls back to the default microphone if the preferred one is gone
+  private async openMicrophone(): Promise<MediaStream> {
+    const constraints: MediaTrackConstraints = {
+      channelCount: 1,
+      echoCancellation: true,
+      noiseSuppression: true,
+      autoGainControl: true,
+    }
+    if (this.inputDeviceId) {
+      try {
+        return await this.getUserMedia({
+          audio: { ...constraints, deviceId: { exact: this.inputDeviceId } },
+        })
+      } catch (err) {
+        const name = err instanceof Error ? err.name : ''
+        if (name !== 'OverconstrainedError' && name !== 'NotFoundError') throw err
+      }
+    }
+    return this.getUserMedia({ audio: constraints })
+  }
+
+  private setMediaStream(stream: MediaStream): void {
+    this.mediaStream = stream
+    this.connectInputAnalyser(stream)
+    this.recorder?.setMicrophone(stream)
+    // Unplugging the active device ends its track
+    stream.getAudioTracks().forEach(track => {
+      track.onended = () => {
+        if (this.mediaStream === stream) this.swapMicrophone()
+      }
+    })
+  }
+
+  private async swapMicrophone(): Promise<void> {
+    const audioContext = this.audioContext
+    const previous = this.mediaStream
+    if (!audioContext || !previous) return
+
+    try {
+      const stream = await this.openMicrophone()
+      if (this.audioContext !== audioContext || this.mediaStream !== previous) {
+        stream.getTracks().forEach(t => t.stop())
+        return
+      }
+      this.setMediaStream(stream)
+      previous.getAudioTracks().forEach(track => { track.onended = null })
+
+      // Capture only exists once the socket has connected; otherwise it will
+      // pick up the new stream when it starts.
+      if (this.capture) {
+        this.capture.stop()
+        this.capture = null
+        await this.startCapture(audioContext)
+      }
+      previous.getTracks().forEach(t => t.stop())
+    } catch (err) {
+      this.setError(err instanceof Error ? err.message : 'Failed to switch microphone')
+    }
+  }
+
+  private startRecording(audioContext: AudioContext, stream: MediaStream, assistant: AudioNode): void {
+    if (!this.recordingLayout || !supportsSessionRecording()) return
+    try {
+      const recorder = new SessionRecorder(audioContext, { layout: this.recordingLayout })
+      recorder.setMicrophone(stream)
+      recorder.setAssistant(assistant)
+      recorder.start()
+      this.recorder = recorder
+    } catch (_err) {
+      // Recording is best-effort; the conversation goes ahead without it
+    }
+  }
+
+  private connectInputAnalyser(stream: MediaStream): void {
+    this.inputAnalyserSource?.disconnect()
+    this.inputAnalyserSource = null
+    const ctx = this.audioContext
+    if (!ctx || !this._inputAnalyser) return
+    const source = ctx.createMediaStreamSource(stream)
+    source.connect(this._inputAnalyser)
+    this.inputAnalyserSource = source
+  }
+
+  private async handleDeviceChange(): Promise<void> {
+    const track = this.mediaStream?.getAudioTracks()[0]
+    if (!track) return
+
+    // Runs from a devicechange listener, so nothing else would see a rejection
+    try {
+      const { inputs } = await listAudioDevices()
+      const currentId = track.getSettings().deviceId
+      const preferredAvailable = !!this.inputDeviceId && inputs.some(d => d.deviceId === this.inputDeviceId)
+
+      // Move back to the preferred device when it is plugged in again
+      if (track.readyState !== 'live' || (preferredAvailable && currentId !== this.inputDeviceId)) {
+        await this.swapMicrophone()
+      }
+    } catch (err) {
+      this.setError(err instanceof Error ? err.message : 'Failed to check audio devices')
+    }
+  }
+
+  private applyOutputDevice(): void {
+    for (const context of [this.playbackQueue?.context, this.replayContext]) {
+      const ctx = context as (AudioContext & { setSinkId?: (id: string) => Promise<void> }) | null | undefined
+      if (!ctx?.setSinkId) continue
+      ctx.setSinkId(this.outputDeviceId || '').catch(() => {
+        // Device disappeared or permission denied; keep the current output
+      })
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Session lifecycle
+  // -------------------------------------------------------------------------
+
+  private async requestSession(): Promise<SessionStartResponse> {
+    const res = await this.fetchImpl(this.options.sessionStartUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        agentId: this.options.agentId,
+        framing: SUPPORTED_FRAMINGS,
+        ...(this.options.userId ? { userId: this.options.userId } : {}),
+        ...(this.language ? { language: this.language } : {}),
+        ...(this._sessionId ? { sessionId: this._sessionId } : {}),
+        ...(this.resumeToken ? { resumeToken: this.resumeToken } : {}),
+      }),
+    })
+
+    const data: (Partial<SessionStartResponse> & { error?: string }) | null = await res.json().catch(() => null)
+    if (!res.ok) {
+      throw new Error(data?.error || `Session start failed: ${res.status}`)
+    }
+    if (!data?.wsUrl) throw new Error('No WebSocket URL returned')
+
+    this.resumeToken = data.resumeToken || this.resumeToken
+    this._sessionId = data.sessionId || this._sessionId
+    return { ...data, wsUrl: data.wsUrl }
+  }
+
+  // Returns whether the sample rate or framing differs from before
+  private applyAudioConfig(data: SessionStartResponse): boolean {
+    const sampleRate = data.audioConfig?.sampleRate || DEFAULT_SAMPLE_RATE
+    const framing = negotiateFraming(data)
+    if (sampleRate === this.sampleRate && framing === this.framing) return false
+    this.sampleRate = sampleRate
+    this.framing = framing
+    this.sendSequence = 0
+    return true
+  }
+
+  // A reconnect may come back with a different audio format. The capture
+  // worklet resamples and encodes for one format, so it is rebuilt, and audio
+  // held across the gap (encoded for the old session) is dropped.
+  private renegotiate(data: SessionStartResponse, audioContext: AudioContext): void {
+    if (!this.applyAudioConfig(data)) return
+    this.pendingAudio = []
+    if (this.capture) {
+      this.capture.stop()
+      this.capture = null
+      this.startCapture(audioContext)
+    }
+  }
+
+  // The mic stream and capture worklet outlive individual sockets so a
+  // reconnect does not re-prompt for permissions or lose speech.
+  private async startCapture(audioContext: AudioContext): Promise<void> {
+    const stream = this.mediaStream
+    if (!stream) return
+
+    try {
+      const { sampleRate, framing } = this
+      const capture = await (this.options.createAudioCapture || createAudioCapture)(audioContext, stream, {
+        frameDurationMs: this.captureFrameMs,
+        targetSampleRate: sampleRate,
+        encoding: framing === 'binary' ? 'pcm16' : 'base64',
+        onFrame: frame => this.sendAudioFrame(frame),
+      })
+      // Session may have been torn down while the worklet was loading
+      if (this.audioContext !== audioContext) {
+        capture.stop()
+        return
+      }
+      // ...or a reconnect renegotiated the format
+      if (this.sampleRate !== sampleRate || this.framing !== framing) {
+        capture.stop()
+        await this.startCapture(audioContext)
+        return
+      }
+      this.capture = capture
+    } catch (err) {
+      this.fail(err instanceof Error ? err.message : 'Failed to start audio capture')
+    }
+  }
+
+  private openSocket(wsUrl: string, audioContext: AudioContext, session: { hasConnected: boolean }): void {
+    const ws = new this.WebSocketImpl(wsUrl)
+    ws.binaryType = 'arraybuffer'
+    this.ws = ws
+
+    ws.onopen = () => {
+      this.setState('listening')
+
+      if (this.framing === 'binary') {
+        ws.send(JSON.stringify({ type: 'framing', mode: 'binary' }))
+      }
+
+      const pending = this.pendingAudio
+      this.pendingAudio = []
+      this.reconnectAttempt = 0
+      pending.forEach(frame => this.transmitFrame(frame))
+
+      if (!session.hasConnected) {
+        session.hasConnected = true
+        this.startCapture(audioContext)
+      }
+    }
+
+    ws.onmessage = (event) => this.handleMessage(event)
+
+    ws.onerror = () => {
+      // onclose follows and decides between reconnecting and failing
+    }
+
+    ws.onclose = (event) => {
+      if (this.ws !== ws) return
+      this.ws = null
+
+      // A clean close from the server ends the conversation; so does a
+      // socket that never connected in the first place.
+      if (!session.hasConnected) {
+        this.fail('WebSocket connection error')
+        return
+      }
+      if (event.code === 1000) {
+        this.cleanup()
+        this.setState('idle')
+        return
+      }
+
+      this.scheduleReconnect(audioContext, session)
+    }
+  }
+
+  private scheduleReconnect(audioContext: AudioContext, session: { hasConnected: boolean }): void {
+    const policy = this.options.reconnectPolicy || DEFAULT_RECONNECT_POLICY
+    const attempt = ++this.reconnectAttempt
+    if (!shouldReconnect(attempt, policy)) {
+      this.fail('Connection lost')
+      return
+    }
+
+    this.setState('reconnecting')
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null
+      if (this.audioContext !== audioContext) return
+      try {
+        const next = await this.requestSession()
+        if (this.audioContext !== audioContext) return
+        this.renegotiate(next, audioContext)
+        this.openSocket(next.wsUrl, audioContext, session)
+      } catch (_err) {
+        this.scheduleReconnect(audioContext, session)
+      }
+    }, getReconnectDelay(attempt, policy))
+  }
+
+  private fail(message: string): void {
+    this.setError(message)
+    this.setState('error')
+    this.cleanup()
+  }
+
+  private cleanup(): void {
+    // Stop before the audio graph is torn down so the last chunk is flushed
+    if (this.recorder) {
+      this.recorder.stop().then(recording => {
+        if (recording) this.emit('recording', recording)
+      })
+      this.recorder = null
+    }
+    this.bargeInDetector.reset()
+    if (this._talking) this.setTalking(false)
+    this.resetVad()
+    this.stopReplay()
+    this.turnAudio.endTurn()
+    if (this.jitterBuffer) {
+      this.jitterBuffer.flush()
+      this.jitterBuffer = null
+    }
+    if (this.playbackQueue) {
+      this.playbackQueue.stop()
+      this.playbackQueue = null
+    }
+    if (this.outputGain) {
+      this.outputGain.disconnect()
+      this.outputGain = null
+    }
+    this._outputAnalyser = null
+    if (this.inputAnalyserSource) {
+      this.inputAnalyserSource.disconnect()
+      this.inputAnalyserSource = null
+    }
+    this._inputAnalyser = null
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer)
+      this.reconnectTimer = null
+    }
+    if (this.capture) {
+      this.capture.stop()
+      this.capture = null
+    }
+    if (this.unsubscribeDevices) {
+      this.unsubscribeDevices()
+      this.unsubscribeDevices = null
+    }
+    if (this.mediaStream) {
+      this.mediaStream.getTracks().forEach(t => {
+        t.onended = null
+        t.stop()
+      })
+      this.mediaStream = null
+    }
+    if (this.audioContext) {
+      this.audioContext.close().catch(() => {})
+      this.audioContext = null
+    }
+    this.interrupted = false
+    this.settleText(false)
+    this.textTurnsRejected = false
+    if (this.ws) {
+      // Detach first so an intentional close is not mistaken for a drop
+      this.ws.onclose = null
+      this.ws.close()
+      this.ws = null
+    }
+    this.pendingAudio = []
+    this.resumeToken = null
+    this.reconnectAttempt = 0
+  }
+
+  // -------------------------------------------------------------------------
+  // Outgoing audio
+  // -------------------------------------------------------------------------
+
+  private get captureFrameMs(): CaptureFrameDuration {
+    return this.options.captureFrameMs || DEFAULT_CAPTURE_FRAME_MS
+  }
+
+  private sendAudioFrame(frame: CaptureFrame): void {
+    if (this._muted) return
+    if (this._inputMode === 'push-to-talk' && !this._talking) return
+
+    const speaking = this.vad.update(frame.rms, frame.zcr, this.captureFrameMs)
+
+    if (this.jitterBuffer?.isPlaying) {
+      this.outputGain?.update(frame.rms, this.captureFrameMs)
+      if (this.bargeInDetector.update(frame.rms, this.captureFrameMs)) {
+        this.bargeIn()
+      }
+    }
+
+    if (this.isVadGating) {
+      if (!speaking) {
+        const preroll = this.prerollAudio
+        preroll.push(frame)
+        const maxFrames = Math.ceil(VAD_PREROLL_MS / this.captureFrameMs)
+        if (preroll.length > maxFrames) preroll.splice(0, preroll.length - maxFrames)
+        return
+      }
+      const preroll = this.prerollAudio
+      this.prerollAudio = []
+      preroll.forEach(f => this.transmitFrame(f))
+    }
+
+    this.transmitFrame(frame)
+  }
+
+  private get isVadGating(): boolean {
+    return this.vadGating && this._inputMode === 'open'
+  }
+
+  private resetVad(): void {
+    this.vad.reset()
+    this.prerollAudio = []
+    this.setUserSpeaking(false)
+  }
+
+  private sendEndOfUtterance(): void {
+    const ws = this.ws
+    if (ws && ws.readyState === this.WebSocketImpl.OPEN) {
+      ws.send(JSON.stringify({ type: 'end_of_utterance' }))
+    }
+  }
+
+  // Sends now, or holds the frame while a reconnect is in progress
+  private transmitFrame(frame: CaptureFrame): void {
+    const ws = this.ws
+    if (!ws || ws.readyState !== this.WebSocketImpl.OPEN) {
+      // Hold audio spoken during a reconnect gap, dropping the oldest frames
+      // once the window is full.
+      if (this.reconnectAttempt > 0) {
+        const pending = this.pendingAudio
+        pending.push(frame)
+        const bufferMs = this.options.reconnectBufferMs ?? DEFAULT_RECONNECT_BUFFER_MS
+        const maxFrames = Math.ceil(bufferMs / this.captureFrameMs)
+        if (pending.length > maxFrames) pending.splice(0, pending.length - maxFrames)
+      }
+      return
+    }
+
+    if (frame.encoding === 'pcm16') {
+      ws.send(encodeAudioFrame(frame.pcm, this.sendSequence++, frame.sampleRate))
+    } else {
+      ws.send(JSON.stringify({
+        type: 'audio',
+        audio: frame.audio,
+        sampleRate: frame.sampleRate,
+      }))
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Playback
+  // -------------------------------------------------------------------------
+
+  // Accepts base64 from JSON `audio` messages or the raw PCM16 payload of a
+  // binary frame, which also carries its own sample rate.
+  private playAudioChunk(audio: string | ArrayBuffer, sampleRate?: number): void {
+    const jitter = this.jitterBuffer
+    if (!jitter) return
+
+    try {
+      let pcm16: Int16Array
+      if (typeof audio === 'string') {
+        const binaryStr = atob(audio)
+        const bytes = new Uint8Array(binaryStr.length)
+        for (let i = 0; i < binaryStr.length; i++) {
+          bytes[i] = binaryStr.charCodeAt(i)
+        }
+        pcm16 = new Int16Array(bytes.buffer)
+      } else {
+        pcm16 = new Int16Array(audio, 0, audio.byteLength >> 1)
+      }
+
+      const chunk = { samples: pcm16ToFloat32(pcm16), sampleRate: sampleRate || this.sampleRate }
+      // The live turn takes over from any replay
+      this.stopReplay()
+      jitter.push(chunk.samples, chunk.sampleRate)
+      this.turnAudio.append(chunk.samples, chunk.sampleRate)
+      this.emit('audio', chunk)
+    } catch (_err) {
+      // Audio playback error
+    }
+  }
+
+  private finishReplay(): void {
+    this.replaySource?.disconnect()
+    this.replaySource = null
+    if (this.replayContext) {
+      this.replayContext.close().catch(() => {})
+      this.replayContext = null
+    }
+    this.setReplaying(null)
+  }
+
+  // Stops everything already scheduled and reports how much of the current
+  // assistant turn was actually heard.
+  private stopPlayback() {
+    this.bargeInDetector.reset()
+    this.outputGain?.reset()
+    return this.jitterBuffer?.flush() || { playedMs: 0, totalMs: 0 }
+  }
+
+  private bargeIn(): void {
+    const { playedMs, totalMs } = this.stopPlayback()
+    this.interrupted = true
+    this.turnAudio.endTurn()
+    this.setState('listening')
+
+    const ws = this.ws
+    if (ws && ws.readyState === this.WebSocketImpl.OPEN) {
+      ws.send(JSON.stringify({ type: 'interrupt', playedMs }))
+    }
+
+    // Interim user text may already follow the assistant turn being cut off
+    this.updateTranscript(prev => {
+      let index = prev.length - 1
+      while (index >= 0 && prev[index].role === 'user' && !prev[index].isFinal) index--
+      const last = prev[index]
+      if (!last || last.role !== 'assistant') return prev
+      const spokenRatio = totalMs > 0 ? playedMs / totalMs : 0
+      const next = prev.slice()
+      next[index] = { ...last, interrupted: true, spokenRatio }
+      return next
+    })
+  }
+
+  // -------------------------------------------------------------------------
+  // Incoming messages
+  // -------------------------------------------------------------------------
+
+  // Interim results revise the entry for their utterance in place until the
+  // final text replaces it. Messages without an ID revise the latest interim
+  // entry of the same role, if it is still the newest entry for that role.
+  private applyTranscript(update: {
+    role: TranscriptEntry['role']
+    text: string
+    utteranceId: string | null
+    isFinal: boolean
+    language: string | null
+  }): void {
+    const { role, text, utteranceId, isFinal } = update
+    const language = update.language || this.language
+    let entryId: string | null = null
+
+    this.updateTranscript(prev => {
+      let index = -1
+      if (utteranceId) {
+        index = prev.findIndex(e => e.id === utteranceId)
+      } else {
+        for (let i = prev.length - 1; i >= 0; i--) {
+          if (prev[i].role !== role) continue
+          if (!prev[i].isFinal) index = i
+          break
+        }
+      }
+
+      if (index === -1) {
+        if (!text) return prev
+        entryId = utteranceId || generateUUID()
+        const entry: TranscriptEntry = { id: entryId, role, text, timestamp: Date.now(), isFinal }
+        if (language) entry.language = language
+        return [...prev, entry]
+      }
+
+      const existing = prev[index]
+      entryId = existing.id
+      // Late interim results must not undo a final transcript
+      if (existing.isFinal && !isFinal) return prev
+      if (existing.text === text && existing.isFinal === isFinal && (!update.language || existing.language === update.language)) return prev
+      const next = prev.slice()
+      next[index] = { ...existing, text, isFinal, ...(update.language ? { language: update.language } : {}) }
+      return next
+    })
+
+    if (!entryId) return
+    // Assistant audio is kept under its transcript entry; a user turn closes it
+    if (role === 'assistant') this.turnAudio.attachEntry(entryId)
+    else this.turnAudio.endTurn()
+  }
+
+  // Any response from the agent means the text turn was taken; a refusal
+  // disables text turns for the rest of the connection.
+  private settleText(accepted: boolean): void {
+    const pending = this.pendingText
+    if (!pending) return
+    this.pendingText = null
+    clearTimeout(pending.timer)
+    if (!accepted) {
+      this.textTurnsRejected = true
+      this.removeTypedEntry(pending.entryId)
+    }
+    pending.resolve(accepted)
+  }
+
+  // Only errors tied to the text turn count; others are about other frames
+  private isTextRejection(msg: ServerErrorMessage): boolean {
+    if (!this.pendingText) return false
+    return msg.messageType === 'text' || (!!msg.utteranceId && msg.utteranceId === this.pendingText.entryId)
+  }
+
+  private handleMessage(event: MessageEvent): void {
+    if (event.data instanceof ArrayBuffer) {
+      const frame = decodeFrame(event.data)
+      if (frame?.type === FRAME_TYPE.audio && !this.interrupted) {
+        this.settleText(true)
+        this.setState('speaking')
+        this.playAudioChunk(frame.payload, frame.sampleRate)
+      }
+      return
+    }
+
+    let msg: ServerMessage
+    try {
+      msg = JSON.parse(event.data)
+    } catch (_err) {
+      // Non-JSON message, ignore
+      return
+    }
+    if (!msg || typeof msg.type !== 'string') return
+
+    switch (msg.type) {
+      case 'audio':
+        if (this.interrupted) break
+        this.settleText(true)
+        this.setState('speaking')
+        this.playAudioChunk(msg.audio)
+        break
+      case 'transcript':
+        if ((msg.role === 'user' || msg.role === 'assistant') && typeof msg.text === 'string') {
+          this.settleText(true)
+          this.applyTranscript({
+            role: msg.role,
+            text: msg.text,
+            utteranceId: msg.utteranceId ?? msg.utterance_id ?? null,
+            isFinal: msg.isFinal ?? msg.is_final ?? true,
+            language: typeof msg.language === 'string' ? msg.language : null,
+          })
+        }
+        break
+      case 'thinking':
+        this.settleText(true)
+        this.interrupted = false
+        this.turnAudio.endTurn()
+        this.setState('thinking')
+        break
+      case 'clear':
+        this.interrupted = false
+        this.stopPlayback()
+        // Flushed audio never reports a drain, so the state is moved on here
+        this.setState('listening')
+        break
+      case 'error':
+        if (this.isTextRejection(msg)) {
+          this.settleText(false)
+          break
+        }
+        this.setError(msg.message || 'Voice agent error')
+        break
+      case 'state':
+        if (msg.state !== 'speaking') this.interrupted = false
+        if (msg.state === 'listening') this.setState('listening')
+        if (msg.state === 'thinking') {
+          this.turnAudio.endTurn()
+          this.setState('thinking')
+        }
+        if (msg.state === 'speaking') this.setState('speaking')
+        break
+    }
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Voice Settings Utility
+ *
+ * User preferences for the voice client, persisted in localStorage so they
+ * survive reloads. Each stored field is validated on load; unknown fields are
+ * dropped and malformed values fall back to their defaults.
+ */
+
+import type { InputMode } from '@/lib/voiceSession'
+import { VadSensitivity, VAD_SENSITIVITIES } from '@/lib/vad'
+import type { RecordingLayout } from '@/lib/sessionRecorder'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface VoiceSettings {
+  /** Voice agent to talk to; null means the first configured agent */
+  agentId: string | null
+  /** Preferred microphone; null means the system default */
+  inputDeviceId: string | null
+  /** Preferred speaker for assistant audio; null means the system default */
+  outputDeviceId: string | null
+  /** Assistant playback volume, 0..1 */
+  volume: number
+  /** Lower assistant playback while the user is speaking */
+  ducking: boolean
+  /** Always-on microphone or push-to-talk */
+  inputMode: InputMode
+  /** Only stream audio while speech is detected (open-mic mode) */
+  vadEnabled: boolean
+  vadSensitivity: VadSensitivity
+  /** Record session audio for download when the session ends */
+  recordSessions: boolean
+  recordingLayout: RecordingLayout
+  /** Read replies to typed messages aloud with speech synthesis */
+  speakTextReplies: boolean
+  /** Conversation and interface language (BCP 47); null means the agent's configured language */
+  language: string | null
+}
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  agentId: null,
+  inputDeviceId: null,
+  outputDeviceId: null,
+  volume: 1,
+  ducking: false,
+  inputMode: 'open',
+  vadEnabled: false,
+  vadSensitivity: 'medium',
+  recordSessions: false,
+  recordingLayout: 'split',
+  speakTextReplies: false,
+  language: null,
+}
+
+const STORAGE_KEY = 'voiceflow.settings'
+
+const INPUT_MODES: InputMode[] = ['open', 'push-to-talk']
+const RECORDING_LAYOUTS: RecordingLayout[] = ['mixed', 'split']
+
+// ---------------------------------------------------------------------------
+// Persistence
+// ---------------------------------------------------------------------------
+
+export function loadVoiceSettings(): VoiceSettings {
+  if (typeof window === 'undefined') return DEFAULT_VOICE_SETTINGS
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY)
+    if (!raw) return DEFAULT_VOICE_SETTINGS
+    return parseVoiceSettings(JSON.parse(raw))
+  } catch {
+    return DEFAULT_VOICE_SETTINGS
+  }
+}
+
+export function saveVoiceSettings(settings: VoiceSettings): void {
+  if (typeof window === 'undefined') return
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+  } catch {
+    // Storage full or blocked (e.g. private mode in a sandboxed iframe)
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+function parseVoiceSettings(value: unknown): VoiceSettings {
+  if (!value || typeof value !== 'object') return DEFAULT_VOICE_SETTINGS
+  const stored = value as Record<string, unknown>
+  const defaults = DEFAULT_VOICE_SETTINGS
+  return {
+    agentId: nullableString(stored.agentId, defaults.agentId),
+    inputDeviceId: nullableString(stored.inputDeviceId, defaults.inputDeviceId),
+    outputDeviceId: nullableString(stored.outputDeviceId, defaults.outputDeviceId),
+    volume: typeof stored.volume === 'number' && stored.volume >= 0 && stored.volume <= 1 ? stored.volume : defaults.volume,
+    ducking: boolean(stored.ducking, defaults.ducking),
+    inputMode: oneOf(stored.inputMode, INPUT_MODES, defaults.inputMode),
+    vadEnabled: boolean(stored.vadEnabled, defaults.vadEnabled),
+    vadSensitivity: oneOf(stored.vadSensitivity, VAD_SENSITIVITIES, defaults.vadSensitivity),
+    recordSessions: boolean(stored.recordSessions, defaults.recordSessions),
+    recordingLayout: oneOf(stored.recordingLayout, RECORDING_LAYOUTS, defaults.recordingLayout),
+    speakTextReplies: boolean(stored.speakTextReplies, defaults.speakTextReplies),
+    language: nullableString(stored.language, defaults.language),
+  }
+}
+
+function nullableString(value: unknown, fallback: string | null): string | null {
+  if (value === null) return null
+  return typeof value === 'string' && value !== '' ? value : fallback
+}
+
+function boolean(value: unknown, fallback: boolean): boolean {
+  return typeof value === 'boolean' ? value : fallback
+}
+
+function oneOf<T extends string>(value: unknown, allowed: readonly T[], fallback: T): T {
+  return allowed.includes(value as T) ? (value as T) : fallback
+}
@@ -0,0 +1,367 @@
+/**
+ * Mock Voice Server
+ *
+ * Local stand-in for the Lyzr voice endpoint so the voice client can be
+ * developed and exercised end to end without network access. Implements
+ * `POST /session/start` and the session WebSocket protocol used by
+ * VoiceSession (`audio`, `transcript`, `thinking`, `clear`, `error`, `state`).
+ *
+ * Each time the caller stops talking (energy drops to silence for
+ * END_OF_TURN_MS, or the client sends `end_of_utterance` from push-to-talk or
+ * its own voice activity detection) the server replies with a scripted user
+ * transcript, a thinking state, a scripted assistant transcript and a
+ * synthesized tone streamed in real time. Typed `text` turns get the same
+ * reply, with the typed text echoed back as the user transcript. Sessions
+ * started with `voiceConfig.initiator: "agent"` open with a spoken greeting.
+ *
+ * Usage:
+ *   npm run mock:voice
+ *   VOICE_SESSION_URL=http://localhost:8787/session/start npm run dev
+ *
+ * Environment:
+ *   MOCK_VOICE_PORT    port to listen on (default 8787)
+ *   MOCK_VOICE_BINARY  set to 0 to stop advertising binary framing
+ *   MOCK_VOICE_TEXT    set to 0 to reject `text` turns (tests client fallback)
+ */
+
+import http from 'node:http'
+import { randomUUID } from 'node:crypto'
+import { WebSocketServer } from 'ws'
+
+const PORT = Number(process.env.MOCK_VOICE_PORT || 8787)
+const ADVERTISE_BINARY = process.env.MOCK_VOICE_BINARY !== '0'
+const ACCEPT_TEXT = process.env.MOCK_VOICE_TEXT !== '0'
+const SAMPLE_RATE = 24000
+
+// Turn detection on incoming audio
+const SPEECH_RMS = 0.02
+const END_OF_TURN_MS = 700
+
+// Synthesized reply audio
+const TONE_HZ = 440
+const CHUNK_MS = 100
+// Interim user transcripts, one word at a time while the caller speaks
+const PARTIAL_MS = 300
+const REPLY_MS = 1500
+
+const SCRIPT = [
+  {
+    user: 'Hello, can you hear me?',
+    assistant: 'Loud and clear. This is the local mock voice server.',
+  },
+  {
+    user: 'What can you do?',
+    assistant: 'I echo scripted transcripts and play a short tone so you can test the client offline.',
+  },
+  {
+    user: 'Thanks, that is all.',
+    assistant: 'Happy testing. Start talking again to loop through the script.',
+  },
+]
+
+// Binary frame layout shared with lib/voiceFraming.ts
+const FRAME_HEADER_BYTES = 12
+const FRAME_TYPE_AUDIO = 0x01
+const FRAME_VERSION = 1
+
+// ---------------------------------------------------------------------------
+// Audio helpers
+// ---------------------------------------------------------------------------
+
+function rmsOf(pcm16) {
+  if (pcm16.length === 0) return 0
+  let sum = 0
+  for (let i = 0; i < pcm16.length; i++) {
+    const s = pcm16[i] / 0x8000
+    sum += s * s
+  }
+  return Math.sqrt(sum / pcm16.length)
+}
+
+function toneChunk(startSample, samples) {
+  const pcm = new Int16Array(samples)
+  const fadeSamples = Math.round(SAMPLE_RATE * 0.01)
+  const totalSamples = Math.round((SAMPLE_RATE * REPLY_MS) / 1000)
+  for (let i = 0; i < samples; i++) {
+    const n = startSample + i
+    const fade = Math.min(1, n / fadeSamples, (totalSamples - n) / fadeSamples)
+    pcm[i] = Math.round(Math.sin((2 * Math.PI * TONE_HZ * n) / SAMPLE_RATE) * 0.25 * Math.max(0, fade) * 0x7fff)
+  }
+  return pcm
+}
+
+function encodeFrame(pcm, sequence) {
+  const frame = Buffer.alloc(FRAME_HEADER_BYTES + pcm.byteLength)
+  frame.writeUInt8(FRAME_TYPE_AUDIO, 0)
+  frame.writeUInt8(FRAME_VERSION, 1)
+  frame.writeUInt16LE(0, 2)
+  frame.writeUInt32LE(sequence >>> 0, 4)
+  frame.writeUInt32LE(SAMPLE_RATE, 8)
+  Buffer.from(pcm.buffer, pcm.byteOffset, pcm.byteLength).copy(frame, FRAME_HEADER_BYTES)
+  return frame
+}
+
+function decodeBinaryAudio(data) {
+  if (data.length < FRAME_HEADER_BYTES || data.readUInt8(0) !== FRAME_TYPE_AUDIO) return null
+  const payload = data.subarray(FRAME_HEADER_BYTES)
+  return new Int16Array(payload.buffer.slice(payload.byteOffset, payload.byteOffset + (payload.length & ~1)))
+}
+
+function base64ToPcm16(audio) {
+  const bytes = Buffer.from(audio, 'base64')
+  return new Int16Array(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + (bytes.length & ~1)))
+}
+
+// ---------------------------------------------------------------------------
+// HTTP: /session/start
+// ---------------------------------------------------------------------------
+
+const sessions = new Map()
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...CORS_HEADERS })
+  res.end(JSON.stringify(body))
+}
+
+function readBody(req) {
+  return new Promise((resolve) => {
+    let raw = ''
+    req.on('data', (chunk) => { raw += chunk })
+    req.on('end', () => {
+      try {
+        resolve(raw ? JSON.parse(raw) : {})
+      } catch {
+        resolve(null)
+      }
+    })
+  })
+}
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, CORS_HEADERS)
+    res.end()
+    return
+  }
+
+  if (req.method === 'POST' && req.url === '/session/start') {
+    const body = await readBody(req)
+    if (!body || !body.agentId) {
+      sendJson(res, 400, { error: 'agentId is required' })
+      return
+    }
+
+    const resumed = body.resumeToken && sessions.get(body.resumeToken)
+    const id = resumed ? body.resumeToken : randomUUID()
+    if (!resumed) {
+      sessions.set(id, { agentId: body.agentId, turn: 0, voiceConfig: body.voiceConfig || {}, greeted: false })
+    }
+
+    sendJson(res, 200, {
+      wsUrl: `ws://localhost:${PORT}/ws?session=${id}`,
+      resumeToken: id,
+      audioConfig: {
+        sampleRate: SAMPLE_RATE,
+        framing: ADVERTISE_BINARY ? ['binary', 'json'] : ['json'],
+      },
+    })
+    return
+  }
+
+  if (req.method === 'GET' && req.url === '/health') {
+    sendJson(res, 200, { status: 'ok' })
+    return
+  }
+
+  sendJson(res, 404, { error: 'Not found' })
+})
+
+// ---------------------------------------------------------------------------
+// WebSocket: session protocol
+// ---------------------------------------------------------------------------
+
+const wss = new WebSocketServer({ noServer: true })
+
+server.on('upgrade', (req, socket, head) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`)
+  const session = sessions.get(url.searchParams.get('session'))
+  if (url.pathname !== '/ws' || !session) {
+    socket.destroy()
+    return
+  }
+  wss.handleUpgrade(req, socket, head, (ws) => handleConnection(ws, session))
+})
+
+function handleConnection(ws, session) {
+  let binary = false
+  let sequence = 0
+  let speaking = false
+  let silenceMs = 0
+  let thinkTimer = null
+  let replyTimer = null
+  let partialTimer = null
+  let utteranceId = null
+
+  const send = (msg) => {
+    if (ws.readyState === ws.OPEN) ws.send(JSON.stringify(msg))
+  }
+
+  const stopReply = () => {
+    clearTimeout(thinkTimer)
+    clearInterval(replyTimer)
+    thinkTimer = null
+    replyTimer = null
+  }
+
+  const stopPartials = () => {
+    clearInterval(partialTimer)
+    partialTimer = null
+  }
+
+  const startPartials = () => {
+    if (partialTimer) return
+    const words = SCRIPT[session.turn % SCRIPT.length].user.split(' ')
+    let count = 0
+    utteranceId = utteranceId || randomUUID()
+    partialTimer = setInterval(() => {
+      // The last word only arrives with the final transcript
+      if (count >= words.length - 1) return
+      count++
+      send({ type: 'transcript', role: 'user', text: words.slice(0, count).join(' '), utteranceId, isFinal: false })
+    }, PARTIAL_MS)
+  }
+
+  // `typed` replaces the scripted user line with a text turn from the client
+  const reply = (typed = null) => {
+    const line = SCRIPT[session.turn % SCRIPT.length]
+    session.turn++
+
+    stopPartials()
+    if (typed) {
+      send({ type: 'transcript', role: 'user', text: typed.text, utteranceId: typed.utteranceId || randomUUID(), isFinal: true })
+    } else {
+      send({ type: 'transcript', role: 'user', text: line.user, utteranceId: utteranceId || randomUUID(), isFinal: true })
+    }
+    utteranceId = null
+    send({ type: 'thinking' })
+
+    thinkTimer = setTimeout(() => {
+      thinkTimer = null
+      speak(line.assistant)
+    }, 400)
+  }
+
+  const speak = (text) => {
+    send({ type: 'transcript', role: 'assistant', text, utteranceId: randomUUID(), isFinal: true })
+    send({ type: 'state', state: 'speaking' })
+
+    const chunkSamples = Math.round((SAMPLE_RATE * CHUNK_MS) / 1000)
+    const totalSamples = Math.round((SAMPLE_RATE * REPLY_MS) / 1000)
+    let offset = 0
+    replyTimer = setInterval(() => {
+      // The client returns to listening once its playback drains
+      if (offset >= totalSamples) {
+        stopReply()
+        return
+      }
+      const pcm = toneChunk(offset, Math.min(chunkSamples, totalSamples - offset))
+      offset += pcm.length
+      if (binary) {
+        if (ws.readyState === ws.OPEN) ws.send(encodeFrame(pcm, sequence++))
+      } else {
+        send({ type: 'audio', audio: Buffer.from(pcm.buffer).toString('base64') })
+      }
+    }, CHUNK_MS)
+  }
+
+  const onAudio = (pcm) => {
+    if (!pcm || pcm.length === 0) return
+    const frameMs = (pcm.length / SAMPLE_RATE) * 1000
+    if (rmsOf(pcm) >= SPEECH_RMS) {
+      speaking = true
+      startPartials()
+      silenceMs = 0
+      return
+    }
+    if (!speaking) return
+    silenceMs += frameMs
+    if (silenceMs >= END_OF_TURN_MS) {
+      speaking = false
+      silenceMs = 0
+      if (!thinkTimer && !replyTimer) reply()
+    }
+  }
+
+  ws.on('message', (data, isBinary) => {
+    if (isBinary) {
+      onAudio(decodeBinaryAudio(data))
+      return
+    }
+
+    let msg
+    try {
+      msg = JSON.parse(data.toString())
+    } catch {
+      send({ type: 'error', message: 'Malformed message' })
+      return
+    }
+
+    switch (msg.type) {
+      case 'audio':
+        onAudio(base64ToPcm16(msg.audio || ''))
+        break
+      case 'framing':
+        binary = ADVERTISE_BINARY && msg.mode === 'binary'
+        break
+      case 'end_of_utterance':
+        speaking = false
+        silenceMs = 0
+        if (!thinkTimer && !replyTimer) reply()
+        break
+      case 'text':
+        if (!ACCEPT_TEXT) {
+          send({ type: 'error', message: 'Unsupported message type: text', messageType: 'text', utteranceId: msg.utteranceId })
+          break
+        }
+        stopReply()
+        reply({ text: String(msg.text || ''), utteranceId: msg.utteranceId })
+        break
+      case 'interrupt':
+        stopReply()
+        send({ type: 'clear' })
+        send({ type: 'state', state: 'listening' })
+        break
+      default:
+        send({ type: 'error', message: `Unsupported message type: ${msg.type}`, messageType: msg.type })
+    }
+  })
+
+  ws.on('close', () => {
+    stopReply()
+    stopPartials()
+  })
+
+  send({ type: 'state', state: 'listening' })
+
+  // Agent-initiated sessions greet once, not again after a reconnect
+  if (session.voiceConfig.initiator === 'agent' && !session.greeted) {
+    session.greeted = true
+    // Give the client a moment to negotiate framing first
+    thinkTimer = setTimeout(() => {
+      thinkTimer = null
+      const language = session.voiceConfig.language ? ` (${session.voiceConfig.language})` : ''
+      speak(session.voiceConfig.message || `Hi, this is the mock voice agent${language}. How can I help?`)
+    }, 200)
+  }
+}
+
+server.listen(PORT, () => {
+  console.log(`Mock voice server listening on http://localhost:${PORT}`)
+  console.log(`  POST http://localhost:${PORT}/session/start`)
+})